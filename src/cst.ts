@@ -0,0 +1,115 @@
+/**
+ * @description Concrete syntax trees, which keep every token of the source with the trivia around it, so that the source can be printed back.
+ */
+
+/**
+ * Usage:
+ * import { printCst } from 'path/to/cst'
+ *
+ * const session = new ParseSession({ cst: true })
+ * session.run(syntax(json.value).eof(), new Lexer(rules.json, source))
+ *
+ * // a node for each `syntax` rule applied, with the tokens and the nodes of the rules it parses as children
+ * const tree = session.cst!
+ * tree.children[0]                 // e.g. the node of `value`
+ * tree.children[0].parent === tree // true
+ *
+ * // the exact source, with the comments, whitespaces and line breaks
+ * printCst(tree) === source        // true
+ *
+ * Leaves can be changed in place (e.g. `leaf.token.text`), and nodes can be given other children, to print a changed source.
+ */
+
+import { Token, Trivia, Position } from './lex'
+
+export type CstElement = CstNode | CstLeaf
+
+/** A node made by a `syntax` rule, or the root of a parse. */
+export class CstNode {
+  // the name of the rule, or undefined for the root
+  rule?: string
+  children: CstElement[]
+  parent?: CstNode
+  // the trivia of a source without tokens, which the root keeps after its children since no token takes it
+  trivia: Trivia[]
+
+  constructor(rule: string | undefined, children: CstElement[]) {
+    this.rule = rule
+    this.children = children
+    this.trivia = []
+  }
+
+  /** The tokens of the subtree in order. */
+  get tokens(): Token[] {
+    const tokens: Token[] = []
+    const walk = (element: CstElement) => {
+      if (element instanceof CstLeaf) {
+        tokens.push(element.token)
+      } else {
+        element.children.forEach(walk)
+      }
+    }
+    walk(this)
+    return tokens
+  }
+
+  /** The source text of the subtree, with the trivia around its tokens. */
+  get text(): string {
+    return printCst(this)
+  }
+
+  /** Where the subtree is in the source, from its first token to its last, without their trivia. Undefined if it has no token. */
+  get span(): { start: Position, end: Position } | undefined {
+    const tokens = this.tokens
+    return tokens.length > 0 ? { start: tokens[0].start, end: tokens[tokens.length - 1].end } : undefined
+  }
+
+  // sets the parents of the descendants, which may have been in other trees before
+  link() {
+    this.children.forEach(child => {
+      child.parent = this
+      if (child instanceof CstNode) {
+        child.link()
+      }
+    })
+  }
+}
+
+/** A token in a tree. */
+export class CstLeaf {
+  token: Token
+  parent?: CstNode
+
+  constructor(token: Token) {
+    this.token = token
+  }
+
+  /** The source text of the token, with the trivia around it. */
+  get text(): string {
+    return printCst(this)
+  }
+
+  get span(): { start: Position, end: Position } {
+    return { start: this.token.start, end: this.token.end }
+  }
+}
+
+/** Prints a tree back to its source: the leading trivia, the text and the trailing trivia of each token in turn, and the trivia kept by the root. */
+export function printCst(element: CstElement): string {
+  const texts: string[] = []
+  const walk = (element: CstElement) => {
+    if (element instanceof CstLeaf) {
+      const token = element.token
+      texts.push(printTrivia(token.leadingTrivia), token.text === undefined ? token.literal : token.text, printTrivia(token.trailingTrivia))
+    } else {
+      element.children.forEach(walk)
+      texts.push(printTrivia(element.trivia))
+    }
+  }
+  walk(element)
+  return texts.join('')
+}
+
+function printTrivia(trivia: Trivia[]): string {
+  return trivia.map(x => x.text).join('')
+}
@@ -0,0 +1,224 @@
+/**
+ * @description Descriptions of the grammars that parsers accept, and their export as EBNF.
+ */
+
+/**
+ * Usage:
+ * import { describe, toEBNF } from 'path/to/describe'
+ *
+ * // the description graph, to be walked
+ * const { start, rules } = describe(syntax(expr))
+ *
+ * // grammar text in the W3C EBNF notation, of
+ * // expr() { return expression(syntax(term), operatorTable(rules, actions)) } with the operators '*' and '/', '+' and '-', and '==', and
+ * // term() { return ifElse(token('integer'), token('(').then(syntax(expr)).skip(token(')'))) }
+ * console.log(toEBNF(syntax(expr)))
+ * // output:
+ * // expr         ::= expression_2 ( '==' expression_2 )*
+ * // expression_2 ::= expression_1 ( ( '+' | '-' ) expression_1 )*
+ * // expression_1 ::= term ( ( '*' | '/' ) term )*
+ * // term         ::= integer
+ * //                | '(' expr ')'
+ *
+ * A rule made by `syntax` is described once by the name of its function, and is referred to by the name elsewhere.
+ * Parts that cannot be known without parsing are described as opaque, e.g. the continuation of `bind`.
+ * So `term` above ends with `skip`, as `.bind(x => token(')').end(x))` would cut its sequence short at the continuation after `expr`.
+ */
+
+import { Parser, Lazy, Shape, ShapePart } from './parse'
+
+export type Description =
+  { kind: 'token', tokenType: string }
+| { kind: 'literal', literal: string }
+| { kind: 'rule', name: string }
+| { kind: 'sequence', items: Description[] }
+| { kind: 'alternation', alternatives: Description[] }
+| { kind: 'repetition', min: 0 | 1, item: Description, separator?: Description }
+| { kind: 'optional', item: Description }
+| { kind: 'lookahead', negative: boolean, item: Description }
+| { kind: 'empty' }
+| { kind: 'end' }
+| { kind: 'opaque', label: string }
+
+export interface GrammarDescription {
+  // what the parser itself accepts
+  start: Description
+  // definitions of the rules reachable from `start`, in order of first reference
+  rules: { name: string, definition: Description }[]
+}
+
+/** Describes the grammar that a parser accepts. */
+export function describe(parser: Parser<any> | Lazy<Parser<any>>): GrammarDescription {
+  return new Describer().grammar(parser)
+}
+
+/**
+ * Exports the grammar that a parser accepts as text in the W3C EBNF notation, a line for each rule.
+ * If the parser is not a rule itself, it is defined as a rule named `start` first.
+ * Token types are written as they are if they are words, or else quoted like literals.
+ */
+export function toEBNF(parser: Parser<any> | Lazy<Parser<any>>, options: { start?: string } = {}): string {
+  const { start, rules } = describe(parser)
+  const definitions = rules.slice()
+  if (start.kind !== 'rule') {
+    definitions.unshift({ name: options.start || 'start', definition: start })
+  }
+  const width = Math.max(...definitions.map(x => x.name.length))
+  const indent = repeat(' ', width + 2)
+  return definitions.map(({ name, definition }) => {
+    const head = name + repeat(' ', width - name.length) + ' ::= '
+    if (definition.kind === 'alternation') {
+      return head + definition.alternatives.map(x => render(x, 1)).join(`\n${indent} | `)
+    }
+    return head + render(definition, 0)
+  }).join('\n')
+}
+
+class Describer {
+  // rule function -> name
+  private names: Map<() => Parser<any>, string> = new Map()
+  private queue: (Shape & { kind: 'rule' })[] = []
+  // parsers being described, to cut cycles not broken by rules
+  private describing: Set<Parser<any>> = new Set()
+
+  grammar(parser: Parser<any> | Lazy<Parser<any>>): GrammarDescription {
+    const start = this.part(parser)
+    const rules: { name: string, definition: Description }[] = []
+    for (let i = 0; i < this.queue.length; i++) {
+      const rule = this.queue[i]
+      rules.push({ name: this.names.get(rule.rule)!, definition: this.part(rule.body) })
+    }
+    return { start, rules }
+  }
+
+  private part(part: ShapePart): Description {
+    if (!(part instanceof Parser) && !(part instanceof Lazy)) {
+      return this.shape(part)
+    }
+    const parser = part instanceof Lazy ? part.eval() : part
+    if (!parser._shape) {
+      return { kind: 'opaque', label: parser._tag || 'parser' }
+    }
+    if (this.describing.has(parser)) {
+      return { kind: 'opaque', label: `recursion of ${parser._tag || 'parser'}` }
+    }
+    this.describing.add(parser)
+    try {
+      return this.shape(parser._shape)
+    } finally {
+      this.describing.delete(parser)
+    }
+  }
+
+  private shape(shape: Shape): Description {
+    switch (shape.kind) {
+      case 'rule':
+        return { kind: 'rule', name: this.name(shape) }
+      case 'sequence':
+        return sequence(shape.items.map(x => this.part(x)))
+      case 'alternation':
+        return alternation(shape.alternatives.map(x => this.part(x)))
+      case 'repetition': {
+        const item = this.part(shape.item)
+        return shape.separator ? { kind: 'repetition', min: shape.min, item, separator: this.part(shape.separator) } : { kind: 'repetition', min: shape.min, item }
+      }
+      case 'lookahead':
+        return { kind: 'lookahead', negative: shape.negative, item: this.part(shape.item) }
+      default:
+        return shape
+    }
+  }
+
+  // names a rule, and queues it to be defined if it is new
+  private name(shape: Shape & { kind: 'rule' }): string {
+    let name = this.names.get(shape.rule)
+    if (name === undefined) {
+      const base = shape.name || shape.rule.name || 'anonymous'
+      const taken: string[] = []
+      this.names.forEach(x => taken.push(x))
+      name = base
+      for (let i = 2; taken.indexOf(name) > -1; i++) {
+        name = `${base}_${i}`
+      }
+      this.names.set(shape.rule, name)
+      this.queue.push(shape)
+    }
+    return name
+  }
+}
+
+function sequence(items: Description[]): Description {
+  const flat: Description[] = []
+  items.forEach(x => {
+    if (x.kind === 'sequence') {
+      flat.push(...x.items)
+    } else if (x.kind !== 'empty') {
+      flat.push(x)
+    }
+  })
+  return flat.length === 0 ? { kind: 'empty' } : flat.length === 1 ? flat[0] : { kind: 'sequence', items: flat }
+}
+
+// an alternative of nothing makes the others optional
+function alternation(alternatives: Description[]): Description {
+  const flat: Description[] = []
+  let optional = false
+  alternatives.forEach(x => {
+    if (x.kind === 'alternation') {
+      flat.push(...x.alternatives)
+    } else if (x.kind === 'empty') {
+      optional = true
+    } else if (x.kind === 'optional') {
+      optional = true
+      flat.push(x.item)
+    } else {
+      flat.push(x)
+    }
+  })
+  const chosen: Description = flat.length === 0 ? { kind: 'empty' } : flat.length === 1 ? flat[0] : { kind: 'alternation', alternatives: flat }
+  if (!optional || chosen.kind === 'empty') {
+    return chosen
+  } else if (chosen.kind === 'repetition' && chosen.min === 1) {
+    return { kind: 'repetition', min: 0, item: chosen.item, separator: chosen.separator }
+  } else {
+    return { kind: 'optional', item: chosen }
+  }
+}
+
+// `level` is 0 where an alternation may stand, 1 where a sequence may stand, and 2 for operands of postfix operators
+function render(description: Description, level: number): string {
+  const group = (text: string, least: number) => level > least ? `( ${text} )` : text
+  switch (description.kind) {
+    case 'token': return /^\w+$/.test(description.tokenType) ? description.tokenType : quote(description.tokenType)
+    case 'literal': return quote(description.literal)
+    case 'rule': return description.name
+    case 'sequence': return group(description.items.map(x => render(x, 1)).join(' '), 1)
+    case 'alternation': return group(description.alternatives.map(x => render(x, 1)).join(' | '), 0)
+    case 'optional': return render(description.item, 2) + '?'
+    case 'repetition': {
+      if (!description.separator) {
+        return render(description.item, 2) + (description.min === 0 ? '*' : '+')
+      }
+      const item = render(description.item, 1)
+      const items = `${item} ( ${render(description.separator, 1)} ${item} )*`
+      return description.min === 0 ? `( ${items} )?` : group(items, 1)
+    }
+    // comments do not nest
+    case 'lookahead': return `/* ${description.negative ? 'not ' : ''}followed by ${render(description.item, 0).replace(/\/\* | \*\//g, '')} */`
+    case 'empty': return '()'
+    case 'end': return '/* end of file */'
+    case 'opaque': return `/* ${description.label} */`
+  }
+}
+
+function quote(literal: string): string {
+  return literal.indexOf('\'') > -1 ? `"${literal}"` : `'${literal}'`
+}
+
+function repeat(text: string, count: number): string {
+  let result = ''
+  for (let i = 0; i < count; i++) {
+    result += text
+  }
+  return result
+}
@@ -0,0 +1,79 @@
+/**
+ * @description Code frames showing where in the source a failure is found.
+ */
+
+/**
+ * Usage:
+ * import { codeFrame } from 'path/to/frame'
+ *
+ * console.error(codeFrame(source, 2, 12, 13, { color: true }))
+ * // output:
+ * //   1 | {
+ * // > 2 |   "a": [1, }]
+ * //     |            ^
+ * //   3 | }
+ *
+ * Failures render themselves by `ParseFailure.frame(source)`, which is what `Parser.show` and `Lexer.show` print.
+ */
+
+export interface FrameOptions {
+  // count of lines shown before and after the failing line, 2 by default
+  context?: number
+  // colors the frame by ANSI escape codes
+  color?: boolean
+  // line number of the first line of `source`, which is only a part of the whole source if not 1, e.g. the kept text of a stream
+  firstLine?: number
+  // column of the first character of `source` in its line, which is shown after an ellipsis if not 1, e.g. of the kept text of a stream released within a line
+  firstColumn?: number
+}
+
+const ANSI = {
+  reset: '\x1b[0m',
+  bold: '\x1b[1m',
+  dim: '\x1b[2m',
+  red: '\x1b[31m',
+}
+
+/**
+ * Renders the lines around `line` of `source` with a line-number gutter, and underlines `line` from `column` to `endColumn` (exclusive).
+ * Only the character at `column` is underlined if `endColumn` is not given.
+ */
+export function codeFrame(source: string, line: number, column: number, endColumn?: number, options: FrameOptions = {}): string {
+  const firstLine = options.firstLine || 1
+  const firstColumn = options.firstColumn || 1
+  const lines = source.split('\n')
+  const context = options.context === undefined ? 2 : options.context
+  const paint = (code: string, text: string) => options.color ? code + text + ANSI.reset : text
+  const first = Math.max(firstLine, line - context)
+  // the empty line after a trailing line break is not worth showing
+  const count = lines.length > line - firstLine + 1 && lines[lines.length - 1] === '' ? lines.length - 1 : lines.length
+  const last = Math.min(firstLine + count - 1, line + context)
+  const width = String(last).length
+  const frame: string[] = []
+  for (let n = first; n <= last; n++) {
+    // the first line shown from `firstColumn`, after an ellipsis standing for the text before it
+    const cut = n === firstLine && firstColumn > 1
+    const text = (cut ? '…' : '') + lines[n - firstLine]
+    const marker = n === line ? paint(ANSI.red + ANSI.bold, '>') : ' '
+    frame.push(`${marker} ${paint(ANSI.dim, `${padStart(String(n), width)} |`)}${text.length > 0 ? ' ' + text : ''}`)
+    if (n === line) {
+      // tabs are kept so that the caret is aligned with the line above
+      const indent = text.slice(0, cut ? column - firstColumn + 1 : column - 1).replace(/[^\t]/g, ' ')
+      const underline = repeat('^', Math.max(1, (endColumn || column + 1) - column))
+      frame.push(`  ${paint(ANSI.dim, `${repeat(' ', width)} |`)} ${indent}${paint(ANSI.red + ANSI.bold, underline)}`)
+    }
+  }
+  return frame.join('\n')
+}
+
+function padStart(text: string, width: number): string {
+  return repeat(' ', width - text.length) + text
+}
+
+function repeat(text: string, count: number): string {
+  let result = ''
+  for (let i = 0; i < count; i++) {
+    result += text
+  }
+  return result
+}
@@ -0,0 +1,346 @@
+/**
+ * @description A compiler of the compact grammar notation (see `parser-compiler`) into parsers.
+ */
+
+/**
+ * Usage:
+ * import { grammar } from 'path/to/grammar'
+ *
+ * function ints(): Parser<number[]> {
+ *   return grammar({ ints, parseInt32Safe })`
+ *     {
+ *       i = 'integer' => $(x => parseInt32Safe(x, false))
+ *       ';'+
+ *       is = ints
+ *       $([i].concat(is))
+ *     } | $([])
+ *   `
+ * }
+ *
+ * Notation, from higher precedence to lower:
+ * 'type'         parses a token of the type                                  => token('type')
+ * name           parses a nonterminal found in the scope                     => syntax(name)
+ * ${value}       an interpolated nonterminal, parser, or a value for actions
+ * $(expression)  results in the JavaScript expression, which can refer to the bound names and the scope => trivial(expression)
+ * ( ... ) { ... } grouping, where bindings inside are invisible outside
+ * p+ p* p?       repetitions                                                 => more(p) many(p) optional(p)
+ * p => f         translates the result of `p` by the function that `f` results in
+ * name = p       binds the result of `p` to `name` for the rest of the sequence
+ * p q            sequence, resulting in the result of the last one           => p.bind(...) or p.then(...)
+ * p | q          alternative                                                 => ifElse(p, q)
+ */
+
+import { Lexer, RuleSet, Token } from './lex'
+import { Parser, Lazy, syntax, token, ifElse, many, more, optional, moreSeparated, attempt, choices, identity, chainLeftMore } from './parse'
+
+type GrammarNode =
+  { kind: 'terminal', tokenType: string }
+| { kind: 'nonterminal', name: string }
+| { kind: 'action', code: string }
+| { kind: 'repetition', operator: '+' | '*' | '?', node: GrammarNode }
+| { kind: 'translation', node: GrammarNode, translation: GrammarNode }
+| { kind: 'binding', name: string, node: GrammarNode }
+| { kind: 'sequence', items: GrammarNode[] }
+| { kind: 'alternation', alternatives: GrammarNode[] }
+
+type Scope = { [names: string]: any }
+
+// values bound by `name = p` while parsing, looked up through the prototype chain
+type Environment = { [names: string]: any }
+
+const notation = new RuleSet(
+  [
+    { pattern: /^\$\d+/, tokenType: 'action' },
+    { pattern: /^[A-Za-z_$][A-Za-z0-9_$]*/, tokenType: 'name' },
+    { pattern: '=>', tokenType: '=>' },
+    { pattern: '=', tokenType: '=' },
+    { pattern: '|', tokenType: '|' },
+    { pattern: '+', tokenType: '+' },
+    { pattern: '*', tokenType: '*' },
+    { pattern: '?', tokenType: '?' },
+  ],
+  {
+    skipSpaces: true,
+    lineComment: '//',
+    parentheses: {
+      '()': true,
+      '{}': true
+    },
+    string: {
+      quotes: {
+        terminal: '\''
+      }
+    }
+  }
+)
+
+function alternation(): Parser<GrammarNode> {
+  return moreSeparated(syntax(sequence), token('|'))
+    .translate(alternatives => alternatives.length === 1 ? alternatives[0] : { kind: 'alternation', alternatives })
+}
+
+function sequence(): Parser<GrammarNode> {
+  return more(syntax(binding))
+    .translate(items => items.length === 1 ? items[0] : { kind: 'sequence', items })
+}
+
+function binding(): Parser<GrammarNode> {
+  return ifElse(
+    attempt(token('name').bind(name => token('=').end(name)))
+      .bind(name => syntax(translation).translate<GrammarNode>(node => ({ kind: 'binding', name: name.literal, node }))),
+    syntax(translation)
+  )
+}
+
+function translation(): Parser<GrammarNode> {
+  return chainLeftMore(syntax(repetition), token('=>').end((node: GrammarNode, translation: GrammarNode): GrammarNode => ({ kind: 'translation', node, translation })))
+}
+
+function repetition(): Parser<GrammarNode> {
+  return syntax(primary).bind(node => many(choices<Token>(token('+'), token('*'), token('?')))
+    .translate(operators => operators.reduce((node, op) => ({ kind: 'repetition', operator: op.type as '+' | '*' | '?', node }), node)))
+}
+
+function primary(): Parser<GrammarNode> {
+  return choices(
+    token('terminal').translate(tk => ({ kind: 'terminal', tokenType: tk.literal })),
+    token('name').translate(tk => ({ kind: 'nonterminal', name: tk.literal })),
+    token('action').translate(tk => ({ kind: 'action', code: tk.literal })),
+    token('(').then(syntax(alternation)).bind(node => token(')').end(node)),
+    token('{').then(syntax(alternation)).bind(node => token('}').end(node)),
+  )
+}
+
+/**
+ * JavaScript expressions in `$(...)` cannot be described by lexical rules because of nested parentheses,
+ * so they are taken out before tokenizing, leaving `$0`, `$1`... in place.
+ */
+function extractActions(source: string): { text: string, actions: string[] } {
+  const actions: string[] = []
+  let text = ''
+  let i = 0
+  while (i < source.length) {
+    if (source[i] === '\'') {
+      const stop = skipQuoted(source, i)
+      text += source.slice(i, stop)
+      i = stop
+    } else if (source.startsWith('//', i)) {
+      const stop = source.indexOf('\n', i)
+      text += source.slice(i, stop < 0 ? source.length : stop)
+      i = stop < 0 ? source.length : stop
+    } else if (source.startsWith('$(', i)) {
+      let depth = 0
+      let j = i + 1
+      for (; j < source.length; j++) {
+        const c = source[j]
+        if (c === '\'' || c === '"' || c === '`') {
+          j = skipQuoted(source, j) - 1
+        } else if (c === '(') {
+          depth++
+        } else if (c === ')' && --depth === 0) {
+          break
+        }
+      }
+      if (j >= source.length) {
+        throw new Error(`grammar: unclosed action '${source.slice(i, i + 20)}...'`)
+      }
+      text += `$${actions.length}`
+      actions.push(source.slice(i + 2, j))
+      i = j + 1
+    } else {
+      text += source[i++]
+    }
+  }
+  return { text, actions }
+}
+
+// returns the index after the closing quote
+function skipQuoted(source: string, start: number): number {
+  const quote = source[start]
+  let i = start + 1
+  while (i < source.length && source[i] !== quote) {
+    i += source[i] === '\\' ? 2 : 1
+  }
+  return i + 1
+}
+
+// template strings of the same call site are the same object, so a grammar is parsed only once
+const parsedGrammars = new WeakMap<TemplateStringsArray, GrammarNode>()
+
+function parseGrammar(strings: TemplateStringsArray): GrammarNode {
+  let parsed = parsedGrammars.get(strings)
+  if (!parsed) {
+    const { text, actions } = extractActions(strings.reduce((source, s, i) => source + placeholder(i - 1) + s))
+    const lexer = new Lexer(notation, text, 'grammar')
+    parsed = resolveActions(alternation().eof().parseSync(lexer), actions)
+    parsedGrammars.set(strings, parsed)
+  }
+  return parsed
+}
+
+function placeholder(index: number): string {
+  return `__interpolation${index}`
+}
+
+function resolveActions(node: GrammarNode, actions: string[]): GrammarNode {
+  switch (node.kind) {
+    case 'action': return { kind: 'action', code: actions[parseInt(node.code.slice(1))] }
+    case 'repetition': return { kind: 'repetition', operator: node.operator, node: resolveActions(node.node, actions) }
+    case 'translation': return { kind: 'translation', node: resolveActions(node.node, actions), translation: resolveActions(node.translation, actions) }
+    case 'binding': return { kind: 'binding', name: node.name, node: resolveActions(node.node, actions) }
+    case 'sequence': return { kind: 'sequence', items: node.items.map(x => resolveActions(x, actions)) }
+    case 'alternation': return { kind: 'alternation', alternatives: node.alternatives.map(x => resolveActions(x, actions)) }
+    default: return node
+  }
+}
+
+class GrammarCompiler {
+  private scope: Scope
+  private nonterminals: Map<string, Parser<any>> = new Map()
+
+  constructor(scope: Scope) {
+    this.scope = scope
+  }
+
+  /**
+   * Compiles a node into a function making the parser under an environment.
+   * `bound` is the names bound in the enclosing sequences, which are visible to actions.
+   */
+  compile(node: GrammarNode, bound: string[]): (env: Environment) => Parser<any> {
+    switch (node.kind) {
+      case 'terminal': {
+        const parser = token(node.tokenType)
+        return () => parser
+      }
+      case 'nonterminal': {
+        const parser = this.nonterminal(node.name, bound)
+        return () => parser
+      }
+      case 'action': {
+        const evaluate = this.action(node.code, bound)
+        return env => new Parser(() => evaluate(env), `$(${node.code})`, { kind: 'empty' })
+      }
+      case 'repetition': {
+        const one = this.compile(node.node, bound)
+        switch (node.operator) {
+          case '+': return env => more(one(env))
+          case '*': return env => many(one(env))
+          case '?': return env => optional(one(env))
+        }
+      }
+      case 'translation': {
+        const p = this.compile(node.node, bound)
+        const f = this.compile(node.translation, bound)
+        return env => {
+          const parser = p(env)
+          return described(parser.bind(x => f(env).translate(f => f(x))), [parser, f(env)])
+        }
+      }
+      case 'binding':
+        // a binding outside a sequence binds nothing visible
+        return this.compile(node.node, bound)
+      case 'sequence':
+        return this.sequence(node.items, bound)
+      case 'alternation': {
+        const alternatives = node.alternatives.map(x => this.compile(x, bound))
+        const last = alternatives[alternatives.length - 1]
+        return env => alternatives.slice(0, -1).reduceRight((elseParser: Parser<any>, ifParser) => ifElse(ifParser(env), elseParser), last(env))
+      }
+    }
+  }
+
+  private sequence(items: GrammarNode[], bound: string[]): (env: Environment) => Parser<any> {
+    const [item, ...rest] = items
+    if (!rest.length) {
+      return this.compile(item, bound)
+    }
+    if (item.kind === 'binding') {
+      const name = item.name
+      const p = this.compile(item.node, bound)
+      const next = this.sequence(rest, bound.concat(name))
+      return env => {
+        const parser = p(env)
+        // the bound result is unknown until parsing, but what the rest accepts does not depend on it
+        return described(parser.bind(x => {
+          const inner: Environment = Object.create(env)
+          inner[name] = x
+          return next(inner)
+        }), [parser, new Lazy(() => next(Object.create(env)))])
+      }
+    } else {
+      const p = this.compile(item, bound)
+      const next = this.sequence(rest, bound)
+      return env => p(env).then(new Lazy(() => next(env)))
+    }
+  }
+
+  private nonterminal(name: string, bound: string[]): Parser<any> {
+    if (bound.indexOf(name) > -1) {
+      throw new Error(`grammar: '${name}' is a bound result, not a nonterminal`)
+    }
+    let parser = this.nonterminals.get(name)
+    if (!parser) {
+      const value = this.scope[name]
+      if (value instanceof Parser) {
+        parser = value
+      } else if (value instanceof Lazy) {
+        parser = identity(value)
+      } else if (typeof value === 'function') {
+        parser = syntax(value)
+      } else {
+        throw new Error(`grammar: unknown nonterminal '${name}'`)
+      }
+      this.nonterminals.set(name, parser)
+    }
+    return parser
+  }
+
+  private action(code: string, bound: string[]): (env: Environment) => any {
+    const names = Object.keys(this.scope).filter(name => bound.indexOf(name) < 0)
+    const f = new Function(...bound, ...names, `return (${code})`)
+    const values = names.map(name => this.scope[name])
+    return env => f(...bound.map(name => env[name]), ...values)
+  }
+}
+
+// a sequence continued by `bind` is opaque to `describe`, but its parts are known here
+function described<T>(parser: Parser<T>, items: (Parser<any> | Lazy<Parser<any>>)[]): Parser<T> {
+  parser._shape = { kind: 'sequence', items }
+  return parser
+}
+
+// the parser last compiled from each grammar, with the scope it is compiled in.
+// a rule function compiles its grammar on every application, which is then compiled only once as long as the scope has the same values
+const compiledGrammars = new WeakMap<TemplateStringsArray, { scope: Scope, parser: Parser<any> }>()
+
+function compileGrammar<T>(scope: Scope, strings: TemplateStringsArray, values: any[]): Parser<T> {
+  const fullScope: Scope = Object.assign({}, scope)
+  values.forEach((value, i) => fullScope[placeholder(i)] = value)
+  const compiled = compiledGrammars.get(strings)
+  if (compiled && sameScope(compiled.scope, fullScope)) {
+    return compiled.parser
+  }
+  const parser = new GrammarCompiler(fullScope).compile(parseGrammar(strings), [])({})
+  compiledGrammars.set(strings, { scope: fullScope, parser })
+  return parser
+}
+
+function sameScope(a: Scope, b: Scope): boolean {
+  const names = Object.keys(a)
+  return names.length === Object.keys(b).length && names.every(name => name in b && a[name] === b[name])
+}
+
+/**
+ * Compiles a grammar in the compact notation into a parser.
+ *
+ * Used as a template tag directly, nonterminals are given by interpolation: grammar`'[' ${items} ']'`.
+ * Or called with a scope first, nonterminals and values used in actions are found by their names in the scope: grammar({ items })`'[' items ']'`.
+ */
+export function grammar<T = any>(strings: TemplateStringsArray, ...values: any[]): Parser<T>
+export function grammar(scope: Scope): <T = any>(strings: TemplateStringsArray, ...values: any[]) => Parser<T>
+export function grammar(first: TemplateStringsArray | Scope, ...values: any[]): any {
+  if (first instanceof Array && 'raw' in first) {
+    return compileGrammar({}, first as TemplateStringsArray, values)
+  }
+  return <T>(strings: TemplateStringsArray, ...values: any[]) => compileGrammar<T>(first, strings, values)
+}
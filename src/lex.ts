@@ -24,35 +24,99 @@
  * for (let t = gen.next(); !t.done; t = gen.next()) {
  *   console.log(t.value)
  * }
+ *
+ * // lex a source too large to be loaded in memory, chunk by chunk (see `Parser.parseEach`)
+ * const lexer = Lexer.fromStream(ruleSet, fs.createReadStream(path), path)
  */
 
 import JSBI from 'jsbi'
+import { StringDecoder } from 'string_decoder'
+import { inspect } from 'util'
+import { codeFrame, FrameOptions } from './frame'
+import { CstNode } from './cst'
 
 export class EOF {
   toString() { return 'EOF' }
 }
 
+/** Thrown by a lexer of a stream when it needs more of the source than received. Asynchronous drivers (e.g. `Parser.parseEach`) pull more and parse again. */
+export class InputPending {
+  toString() { return 'input pending' }
+}
+
 /** must be caught */
 export class ParseFailure {
-  msg: string
+  // the message, or undefined until it is first read if it is described from the structure of the failure (see `describe`)
+  protected message: string | undefined
   sourceName: string
   line: number
   column: number
+  // end of the failing span, e.g. the end of an unexpected token
+  end?: Position
 
-  constructor(msg: string, sourceName: string, line: number, column: number) {
-    this.msg = msg
+  constructor(msg: string, sourceName: string, line: number, column: number, end?: Position) {
+    this.message = msg
     this.sourceName = sourceName
     this.line = line
     this.column = column
+    this.end = end
+  }
+
+  get msg(): string {
+    if (this.message === undefined) {
+      this.message = this.describe()
+    }
+    return this.message
+  }
+
+  set msg(msg: string) {
+    this.message = msg
+  }
+
+  // the message of a failure constructed without one
+  protected describe(): string {
+    return ''
   }
 
   combine(...others: ParseFailure[]): ParseFailure {
     return new ParseFailures(this, ...others)
   }
 
+  /**
+   * Merges the failures of alternatives, like Parsec `mergeError`. The failure found further in the source wins.
+   * `ExpectationFailure`s found at the same position merge into one expecting all of their items, while other failures are combined.
+   */
+  merge(other: ParseFailure): ParseFailure {
+    const order = comparePositions(this, other)
+    if (order === undefined) {
+      return this.combine(other)
+    } else if (order > 0) {
+      return this
+    } else if (order < 0) {
+      return other
+    } else if (this instanceof ExpectationFailure && other instanceof ExpectationFailure) {
+      const own = this.expected
+      const expected = own.concat(other.expected.filter(x => own.indexOf(x) < 0))
+      return new ExpectationFailure(this.unexpected !== undefined ? this.unexpected : other.unexpected, expected, this.sourceName, this.line, this.column, this.end || other.end)
+    } else if (this.msg === other.msg) {
+      return this
+    } else {
+      return this.combine(other)
+    }
+  }
+
   toString() {
     return (this.sourceName.length > 0 ? `${this.sourceName} - ` : '') + `parse error` + (this.line > 0 && this.column > 0 ? ` at line ${this.line}, column ${this.column}` : '') + `: ${this.msg}`
   }
+
+  /** Renders the failure followed by a code frame of `source`, the whole source it is found in. See `codeFrame`. */
+  frame(source: string, options: FrameOptions = {}): string {
+    if (this.line <= 0 || this.column <= 0) {
+      return this.toString()
+    }
+    const endColumn = this.end && this.end.line === this.line ? this.end.column : undefined
+    return this.toString() + '\n' + codeFrame(source, this.line, this.column, endColumn, options)
+  }
 }
 
 export class ParseFailures extends ParseFailure {
@@ -77,6 +141,53 @@ export class ParseFailures extends ParseFailure {
   toString() {
     return `${this.pfs.length} error(s):\n` + this.pfs.map(x => x.toString()).join('\n')
   }
+
+  frame(source: string, options: FrameOptions = {}): string {
+    return `${this.pfs.length} error(s):\n` + this.pfs.map(x => x.frame(source, options)).join('\n\n')
+  }
+}
+
+/**
+ * A failure finding something other than what is expected, like Parsec `ParseError`.
+ * The message is rendered from the structure, e.g. `unexpected 'if', expected integer, float, string or '['`.
+ */
+export class ExpectationFailure extends ParseFailure {
+  // what is found, e.g. `'id'` or `end of file`, or undefined if unknown
+  unexpected?: string
+  // what could be accepted instead
+  expected: string[]
+
+  constructor(unexpected: string | undefined, expected: string[], sourceName: string, line: number, column: number, end?: Position) {
+    super('', sourceName, line, column, end)
+    // most failures are caught and dropped by alternatives, so they are described only if read
+    this.message = undefined
+    this.unexpected = unexpected
+    this.expected = expected
+  }
+
+  protected describe(): string {
+    return describeExpectation(this.unexpected, this.expected)
+  }
+}
+
+function describeExpectation(unexpected: string | undefined, expected: string[]): string {
+  const parts: string[] = []
+  if (unexpected !== undefined) {
+    parts.push(`unexpected ${unexpected}`)
+  }
+  if (expected.length > 0) {
+    const last = expected[expected.length - 1]
+    parts.push(`expected ${expected.length > 1 ? `${expected.slice(0, -1).join(', ')} or ${last}` : last}`)
+  }
+  return parts.join(', ')
+}
+
+// the sign of the result tells which failure is found further, or undefined if they cannot be compared
+function comparePositions(a: ParseFailure, b: ParseFailure): number | undefined {
+  if (a instanceof ParseFailures || b instanceof ParseFailures || a.line <= 0 || b.line <= 0 || a.sourceName !== b.sourceName) {
+    return undefined
+  }
+  return a.line !== b.line ? a.line - b.line : a.column - b.column
 }
 
 export class UnexpectedEOF extends ParseFailure {
@@ -112,10 +223,65 @@ function isHexadecimal(x: string): boolean {
 export class Lexer {
   ruleSet: RuleSet
   sp: SourcePosition
+  // failures recovered from by the parser on this branch. it is never modified in place, so clones can share it
+  diagnostics: ParseFailure[]
+  // the offset up to which (exclusive) the source has been examined by this lexer and its clones, which they share
+  reached: { offset: number }
+  // the trivia of a source without tokens, which no token takes, once this lexer or a clone keeping trivia has scanned to the end of file. they share it too
+  atEnd: { trivia: Trivia[] }
+  // the user state on this branch (see `getState`). it is replaced rather than modified in place, so clones can share it
+  state: any
+  // what else could have been accepted at the position, left by parsers which succeeded there without consuming input after failing to take more, e.g. the end
+  // of `many`. a failure at the same position is merged with it, like Parsec error hints. it is replaced rather than modified in place, so clones can share it
+  hint?: Hint
+  // whether the tokens are given their trivia (see `LexerOptions`)
+  trivia: boolean
+  // whether the tokens are collected for a concrete syntax tree (see `ParseSession`)
+  cst: boolean
 
-  constructor(ruleSet: RuleSet, source: string, sourceName?: string) {
+  constructor(ruleSet: RuleSet, source: string, sourceName?: string, options: LexerOptions = {}) {
     this.ruleSet = ruleSet
     this.sp = new SourcePosition(source, sourceName)
+    this.diagnostics = []
+    this.reached = { offset: 0 }
+    this.atEnd = { trivia: [] }
+    this.state = undefined
+    this.trivia = options.trivia || false
+    this.cst = false
+  }
+
+  /**
+   * A lexer of a source received chunk by chunk, e.g. from a Node readable stream. Tokens may span chunks.
+   * It throws `InputPending` when it needs more of the source than received, so it must be driven by `pull` (see `Parser.parseEach`).
+   * The text before the current position can be dropped by `release`.
+   */
+  static fromStream(ruleSet: RuleSet, input: NodeJS.ReadableStream | AsyncIterable<string | Buffer>, sourceName?: string): Lexer {
+    const lexer = new Lexer(ruleSet, '', sourceName)
+    lexer.sp.stream = new SourceStream(input)
+    return lexer
+  }
+
+  /** Receives the next chunk of the streamed source. Positions other than the current one of this lexer do not see the chunk. */
+  async pull(): Promise<void> {
+    const stream = this.sp.stream
+    if (!stream) {
+      throw new Error('pulling a lexer that is not of a stream')
+    }
+    await stream.receive()
+    this.sp.refresh()
+  }
+
+  /**
+   * Drops the streamed source before the current position, once nothing will return to it.
+   * Clones are not tracked, so it is for where no clone made before the position is still to be assigned back, e.g. between the results of `Parser.parseEach`,
+   * once the parser has returned and dropped its checkpoints. A clone made before and assigned back afterwards fails once it needs more of the source.
+   */
+  release() {
+    const stream = this.sp.stream
+    if (stream) {
+      stream.release(this.sp.offset)
+      this.sp.refresh()
+    }
   }
 
   show(): void {
@@ -124,7 +290,7 @@ export class Lexer {
         console.log(this.next())
       } catch (e) {
         if (e instanceof ParseFailure) {
-          console.error(e.toString())
+          console.error(e.frame(this.sp.source, { color: process.stderr.isTTY, firstLine: this.sp.sourceLine, firstColumn: this.sp.sourceColumn }))
           process.exit(1)
         } else if (e instanceof EOF) {
           return
@@ -176,234 +342,429 @@ export class Lexer {
    * Make sure to check at least `EOF` if you do not want an end of file when calling this method.
    */
   next(): Token {
-    if (this.ruleSet.skipSpaces) {
-      this.skipWhites()
+    this.sp.ensure(STREAM_LOOKAHEAD)
+    const rules = this.currentRuleSet
+    try {
+      const token = rules.layout ? this.layOut(rules.layout) : this.scan()
+      const action = rules.modeActions[token.type]
+      if (action) {
+        this.changeMode(action, token)
+      }
+      if (this.cst) {
+        this.sp.cstChildren = { child: token, before: this.sp.cstChildren }
+      }
+      return token
+    } finally {
+      this.examine(this.sp.offset + LOOKAHEAD)
     }
+  }
 
-    if (this.sp.eof) {
-      throw new EOF()
+  /** Consumes the next `length` characters as a token of `type`, bypassing the rules, e.g. for parsers of text rather than tokens (see `string`). */
+  consume(type: string, length: number): Token {
+    const start = this.sp.position
+    const text = this.sp.source.slice(this.sp.index, this.sp.index + length)
+    this.sp.advance(length)
+    const token = this.locate(new Token(type, text, this.sp.name, start.line, start.column), start)
+    if (this.cst) {
+      this.sp.cstChildren = { child: token, before: this.sp.cstChildren }
     }
+    return token
+  }
 
-    // check quoted strings
-    for (let quote in this.ruleSet.quotes) {
-      if (this.sp.rest.startsWith(quote)) {
-        let quotation = this.ruleSet.quotes[quote]
-        let s = ''
-        const startLine = this.sp.line
-        const startColumn = this.sp.column
-        this.sp.advance(quote.length)
-        while (!this.sp.eof && !this.sp.rest.startsWith(quotation.stop)) {
-          if (quotation.escape && eq(this.sp.char, '\\')) {
-            // parse escape character
-            // \a 7,\b 8,\f 12,\n 10,\r 13,\t 9,\v 11,\\ 92,\' 39,\" 34,\? 63,\0 0,\255 255, \o377 0o377,\xff 0xff,\uffff 0xffff,\w1ffff String.fromCodePoint(0x1ffff)
-            this.sp.advance()
-            if (this.sp.eof) throw new UnexpectedEOF(this.sp.name)
-            switch (this.sp.char) {
-              case 'a': s += String.fromCharCode(7); this.sp.advance(); break
-              case 'b': s += String.fromCharCode(8); this.sp.advance(); break
-              case 'f': s += String.fromCharCode(12); this.sp.advance(); break
-              case 'n': s += String.fromCharCode(10); this.sp.advance(); break
-              case 'r': s += String.fromCharCode(13); this.sp.advance(); break
-              case 't': s += String.fromCharCode(9); this.sp.advance(); break
-              case 'v': s += String.fromCharCode(11); this.sp.advance(); break
-              // case '\\': s += '\\'; break
-              // case '\'': s += '\''; break
-              // case '"': s += '"'; break
-              // case '{': s += '{'; break
-              // case '}': s += '}'; break
-              // case '?': s += '?'; break
-              // case '$': s += '$'; break
-              // case '/': s += '/'; break
-              case 'o': case 'O': // \o377
-                {
-                  let n = ''
-                  for (let i = 0; i < 3; i++) {
-                    this.sp.advance()
-                    if (this.sp.eof) { // "...\o.EOF
-                      throw new UnexpectedEOF(this.sp.name)
-                    }
-                    if (isOctal(this.sp.char)) {
-                      n += this.sp.char
-                    } else {
-                      throw new ParseFailure('invalid octal escape character', this.sp.name, this.sp.line, this.sp.column)
-                    }
-                  }
-                  s += String.fromCharCode(parseInt(n, 8))
-                  this.sp.advance()
+  /** The rule set lexing now, which is that of the mode on the top of the mode stack, or `ruleSet` if no mode is pushed. */
+  get currentRuleSet(): RuleSet {
+    const modes = this.sp.modes
+    return modes.length === 0 ? this.ruleSet : this.ruleSet.modes[modes[modes.length - 1]]
+  }
+
+  private changeMode(action: ModeAction, token: Token) {
+    const modes = this.sp.modes
+    if (action === 'pop') {
+      if (modes.length === 0) {
+        throw new ParseFailure(`unexpected '${token.literal}': no lexer mode to pop`, this.sp.name, token.line, token.column, token.end)
+      }
+      this.sp.modes = modes.slice(0, -1)
+      return
+    }
+    const mode = 'push' in action ? action.push : action.switch
+    if (!this.ruleSet.modes[mode]) {
+      throw new Error(`lexer mode '${mode}' is not defined`)
+    }
+    this.sp.modes = ('push' in action ? modes : modes.slice(0, -1)).concat(mode)
+  }
+
+  /** Records that the source has been examined up to `offset` (exclusive), e.g. by a parser reading it without tokens. */
+  examine(offset: number) {
+    if (offset > this.reached.offset) {
+      this.reached.offset = offset
+    }
+    this.sp.ensure(offset - this.sp.offset)
+  }
+
+  // resolves the layout tokens before the next token, or else scans the token
+  private layOut(brackets: { opening: string[], closing: string[] }): Token {
+    const layout = this.sp.layout || { indents: [0], depth: 0, line: 0, end: this.sp.position, pending: [], resolved: 0 }
+    if (layout.pending.length > 0) {
+      this.sp.layout = { ...layout, pending: layout.pending.slice(1), resolved: layout.resolved + 1 }
+      return layout.pending[0]
+    }
+    this.skipWhites()
+    // a line break out of brackets, or the end of file after some tokens
+    if (layout.depth === 0 && (this.sp.eof ? layout.line > 0 : this.sp.line > layout.line)) {
+      const tokens: Token[] = []
+      if (layout.line > 0) {
+        tokens.push(this.layoutToken('newline', layout.end))
+      }
+      const indents = layout.indents.slice()
+      const column = this.sp.eof ? 0 : this.sp.column - 1
+      if (column > indents[indents.length - 1]) {
+        indents.push(column)
+        tokens.push(this.layoutToken('indent', this.sp.position))
+      }
+      while (column < indents[indents.length - 1]) {
+        indents.pop()
+        tokens.push(this.layoutToken('dedent', this.sp.position))
+      }
+      if (column !== indents[indents.length - 1]) {
+        throw new ParseFailure(`inconsistent dedent: indented by ${column}, which matches no enclosing block (indented by ${layout.indents.join(', ')})`, this.sp.name, this.sp.line, this.sp.column)
+      }
+      if (tokens.length > 0) {
+        this.sp.layout = { ...layout, indents, line: this.sp.eof ? 0 : this.sp.line, pending: tokens.slice(1), resolved: layout.resolved + 1 }
+        return tokens[0]
+      }
+    }
+    const token = this.scan()
+    const depth = brackets.opening.indexOf(token.literal) > -1 ? layout.depth + 1 : brackets.closing.indexOf(token.literal) > -1 ? Math.max(0, layout.depth - 1) : layout.depth
+    this.sp.layout = { ...layout, depth, line: token.end.line, end: token.end }
+    return token
+  }
+
+  // a layout token takes no characters of the source
+  private layoutToken(type: string, at: Position): Token {
+    const token = new Token(type, '', this.sp.name, at.line, at.column)
+    token.start = at
+    token.end = at
+    if (this.trivia) {
+      token.text = ''
+    }
+    return token
+  }
+
+  // scans the rest of a quoted string after `opening`, which is its start symbol, or the end of an interpolation if `continued`, up to its stop or the next interpolation
+  private quoted(quotation: Quotation, start: Position, opening: string, continued: boolean): Token {
+    const interpolation = quotation.interpolation
+    let s = ''
+    while (!this.sp.eof && !this.sp.startsWith(quotation.stop) && !(interpolation && this.sp.startsWith(interpolation.open))) {
+      if (quotation.escape && eq(this.sp.char, '\\')) {
+        // parse escape character
+        // \a 7,\b 8,\f 12,\n 10,\r 13,\t 9,\v 11,\\ 92,\' 39,\" 34,\? 63,\0 0,\255 255, \o377 0o377,\xff 0xff,\uffff 0xffff,\w1ffff String.fromCodePoint(0x1ffff)
+        this.sp.advance()
+        if (this.sp.eof) throw new UnexpectedEOF(this.sp.name)
+        switch (this.sp.char) {
+          case 'a': s += String.fromCharCode(7); this.sp.advance(); break
+          case 'b': s += String.fromCharCode(8); this.sp.advance(); break
+          case 'f': s += String.fromCharCode(12); this.sp.advance(); break
+          case 'n': s += String.fromCharCode(10); this.sp.advance(); break
+          case 'r': s += String.fromCharCode(13); this.sp.advance(); break
+          case 't': s += String.fromCharCode(9); this.sp.advance(); break
+          case 'v': s += String.fromCharCode(11); this.sp.advance(); break
+          // case '\\': s += '\\'; break
+          // case '\'': s += '\''; break
+          // case '"': s += '"'; break
+          // case '{': s += '{'; break
+          // case '}': s += '}'; break
+          // case '?': s += '?'; break
+          // case '$': s += '$'; break
+          // case '/': s += '/'; break
+          case 'o': case 'O': // \o377
+            {
+              let n = ''
+              for (let i = 0; i < 3; i++) {
+                this.sp.advance()
+                if (this.sp.eof) { // "...\o.EOF
+                  throw new UnexpectedEOF(this.sp.name)
+                }
+                if (isOctal(this.sp.char)) {
+                  n += this.sp.char
+                } else {
+                  throw new ParseFailure('invalid octal escape character', this.sp.name, this.sp.line, this.sp.column)
+                }
+              }
+              s += String.fromCharCode(parseInt(n, 8))
+              this.sp.advance()
+            }
+            break
+          case 'x': case 'X': // \xff
+            {
+              let n = ''
+              for (let i = 0; i < 2; i++) {
+                this.sp.advance()
+                if (this.sp.eof) { // "...\x.EOF
+                  throw new UnexpectedEOF(this.sp.name)
+                }
+                if (isHexadecimal(this.sp.char)) {
+                  n += this.sp.char
+                } else {
+                  throw new ParseFailure('invalid hexadecimal escape character', this.sp.name, this.sp.line, this.sp.column)
+                }
+              }
+              s += String.fromCharCode(parseInt(n, 16))
+              this.sp.advance()
+            }
+            break
+          case 'u': case 'U': // \uffff
+            {
+              let n = ''
+              for (let i = 0; i < 4; i++) {
+                this.sp.advance()
+                if (this.sp.eof) { // "...\u.EOF
+                  throw new UnexpectedEOF(this.sp.name)
                 }
-                break
-              case 'x': case 'X': // \xff
-                {
-                  let n = ''
-                  for (let i = 0; i < 2; i++) {
-                    this.sp.advance()
-                    if (this.sp.eof) { // "...\x.EOF
-                      throw new UnexpectedEOF(this.sp.name)
-                    }
-                    if (isHexadecimal(this.sp.char)) {
-                      n += this.sp.char
-                    } else {
-                      throw new ParseFailure('invalid hexadecimal escape character', this.sp.name, this.sp.line, this.sp.column)
-                    }
-                  }
-                  s += String.fromCharCode(parseInt(n, 16))
-                  this.sp.advance()
+                if (isHexadecimal(this.sp.char)) {
+                  n += this.sp.char
+                } else {
+                  throw new ParseFailure('invalid Unicode-16 escape character', this.sp.name, this.sp.line, this.sp.column)
                 }
-                break
-              case 'u': case 'U': // \uffff
-                {
-                  let n = ''
-                  for (let i = 0; i < 4; i++) {
-                    this.sp.advance()
-                    if (this.sp.eof) { // "...\u.EOF
-                      throw new UnexpectedEOF(this.sp.name)
-                    }
-                    if (isHexadecimal(this.sp.char)) {
-                      n += this.sp.char
-                    } else {
-                      throw new ParseFailure('invalid Unicode-16 escape character', this.sp.name, this.sp.line, this.sp.column)
-                    }
-                  }
-                  s += String.fromCharCode(parseInt(n, 16))
-                  this.sp.advance()
+              }
+              s += String.fromCharCode(parseInt(n, 16))
+              this.sp.advance()
+            }
+            break
+          case 'w': case 'W': // \w10ffff
+            {
+              let n = ''
+              for (let i = 0; i < 6; i++) {
+                this.sp.advance()
+                if (this.sp.eof) { // "...\u.EOF
+                  throw new UnexpectedEOF(this.sp.name)
                 }
-                break
-              case 'w': case 'W': // \w10ffff
-                {
-                  let n = ''
-                  for (let i = 0; i < 6; i++) {
-                    this.sp.advance()
-                    if (this.sp.eof) { // "...\u.EOF
-                      throw new UnexpectedEOF(this.sp.name)
-                    }
-                    if (isHexadecimal(this.sp.char)) {
-                      n += this.sp.char
-                    } else {
-                      throw new ParseFailure('invalid Unicode-16 escape character', this.sp.name, this.sp.line, this.sp.column)
-                    }
-                  }
-                  s += String.fromCodePoint(parseInt(n, 16))
-                  this.sp.advance()
-                  // let n = ''
-                  // for (let i = 0; i < 6; i++) {
-                  //   this.sp.advance()
-                  //   if (this.sp.eof) { // "...\w.EOF
-                  //     throw new UnexpectedEOF(this.sp.name)
-                  //   }
-                  //   if (isHexadecimal(this.sp.char)) {
-                  //     n += this.sp.char
-                  //   } else {
-                  //     throw new ParseFailure('invalid Unicode-32 escape character', this.sp.name, this.sp.line, this.sp.column)
-                  //   }
-                  // }
-                  // this.sp.advance()
-                  // if (isHexadecimal(this.sp.char)) {
-                  //   n += this.sp.char
-                  // }
-                  // s += String.fromCharCode(parseInt(n, 16))
-                  // this.sp.advance()
+                if (isHexadecimal(this.sp.char)) {
+                  n += this.sp.char
+                } else {
+                  throw new ParseFailure('invalid Unicode-16 escape character', this.sp.name, this.sp.line, this.sp.column)
                 }
-                break
-              case '0': case '1': case '2': case '3': case '4': case '5': case '6': case '7': case '8': case '9':
-                {
-                  let n = ''
-                  for (let i = 0; i < 3; i++) {
-                    if (isDigit(this.sp.char)) {
-                      n += this.sp.char
-                    } else {
-                      break
-                    }
-                    this.sp.advance()
-                  }
-                  s += String.fromCharCode(parseInt(n, 10))
+              }
+              s += String.fromCodePoint(parseInt(n, 16))
+              this.sp.advance()
+              // let n = ''
+              // for (let i = 0; i < 6; i++) {
+              //   this.sp.advance()
+              //   if (this.sp.eof) { // "...\w.EOF
+              //     throw new UnexpectedEOF(this.sp.name)
+              //   }
+              //   if (isHexadecimal(this.sp.char)) {
+              //     n += this.sp.char
+              //   } else {
+              //     throw new ParseFailure('invalid Unicode-32 escape character', this.sp.name, this.sp.line, this.sp.column)
+              //   }
+              // }
+              // this.sp.advance()
+              // if (isHexadecimal(this.sp.char)) {
+              //   n += this.sp.char
+              // }
+              // s += String.fromCharCode(parseInt(n, 16))
+              // this.sp.advance()
+            }
+            break
+          case '0': case '1': case '2': case '3': case '4': case '5': case '6': case '7': case '8': case '9':
+            {
+              let n = ''
+              for (let i = 0; i < 3; i++) {
+                if (isDigit(this.sp.char)) {
+                  n += this.sp.char
+                } else {
+                  break
                 }
-                break
-              default:
-                s += this.sp.char
                 this.sp.advance()
-                // throw new ParseFailure('invalid escape character', this.sp.name, this.sp.line, this.sp.column)
+              }
+              s += String.fromCharCode(parseInt(n, 10))
             }
-          } else if (eq(this.sp.char, '\n') && !quotation.multiline) {
-            throw new ParseFailure('line break not allowed in this place', this.sp.name, this.sp.line, this.sp.column)
-          } else {
+            break
+          default:
             s += this.sp.char
             this.sp.advance()
-          }
+            // throw new ParseFailure('invalid escape character', this.sp.name, this.sp.line, this.sp.column)
         }
-        this.sp.advance(quotation.stop.length)
-        return new Token(quotation.tokenType, s, this.sp.name, startLine, startColumn)
+      } else if (eq(this.sp.char, '\n') && !quotation.multiline) {
+        throw new ParseFailure('line break not allowed in this place', this.sp.name, this.sp.line, this.sp.column)
+      } else {
+        s += this.sp.char
+        this.sp.advance()
       }
     }
-
-    let resultToken =
-    // a local lambda function to catch `this` and use `return` to control the flow
-    (() => {
-      // retrieve a word and judge whether it is a static token. this is an attempt to raise performance for well formatted source code.
-      let words = this.sp.rest.split(' ', 1)
-      if (words.length) {
-        let word = words[0]
-        let tk = this.ruleSet.staticGuard.get(word)
-        if (typeof tk === 'string') {
-          const line = this.sp.line
-          const column = this.sp.column
-          this.sp.advance(word.length)
-          return new Token(tk, word, this.sp.name, line, column)
-        } else if (tk !== undefined) {
-          const line = this.sp.line
-          const column = this.sp.column
-          this.sp.advance(word.length)
-          return tk(new Token('', word, this.sp.name, line, column))
-        }
+    if (quotation.dedent) {
+      s = dedent(s)
+    }
+    const templates = this.sp.templates
+    let tokenType: string
+    let closing: string
+    if (interpolation && !this.sp.eof && this.sp.startsWith(interpolation.open)) {
+      closing = interpolation.open
+      this.sp.advance(interpolation.open.length)
+      if (!continued) {
+        this.sp.templates = templates.concat({ quotation, depth: 0 })
       }
+      tokenType = continued ? 'template-middle' : 'template-start'
+    } else {
+      closing = this.sp.eof ? '' : quotation.stop
+      this.sp.advance(quotation.stop.length)
+      if (continued) {
+        this.sp.templates = templates.slice(0, -1)
+      }
+      tokenType = continued ? 'template-end' : quotation.tokenType
+    }
+    if (quotation.keepDelimiters) {
+      s = opening + s + closing
+    }
+    return this.locate(new Token(tokenType, s, this.sp.name, start.line, start.column), start)
+  }
 
-      // check every static rule
-      let staticKeys = this.ruleSet.staticGuard.keys()
-      for (let iter = staticKeys.next(); !iter.done; iter = staticKeys.next()) {
-        let key = iter.value
-        if (this.sp.rest.slice(0, key.length) === key) {
-          let tk = this.ruleSet.staticGuard.get(key)
-          if (typeof tk === 'string') {
-            const line = this.sp.line
-            const column = this.sp.column
-            this.sp.advance(key.length)
-            return new Token(tk, key, this.sp.name, line, column)
-          } else {
-            const line = this.sp.line
-            const column = this.sp.column
-            this.sp.advance(key.length)
-            return tk!(new Token('', key, this.sp.name, line, column))
-          }
-        }
+  private scan(): Token {
+    const rules = this.currentRuleSet
+    if (rules.skipSpaces) {
+      this.skipWhites()
+    }
+
+    if (this.sp.eof) {
+      if (this.trivia) {
+        this.attachTrivia()
       }
+      throw new EOF()
+    }
+    const start = this.sp.position
 
-      // check every dynamic rule
-      for (let i in this.ruleSet.dynamicGuard) {
-        let guard = this.ruleSet.dynamicGuard[i]
-        let m
-        if (m = this.sp.rest.match(guard.pat)) {
-          if (m !== null) {
-            const literal = m[0]
-            const line = this.sp.line
-            const column = this.sp.column
-            this.sp.advance(literal.length)
-            if (typeof guard.tk === 'string') {
-              return new Token(guard.tk, literal, this.sp.name, line, column)
-            } else {
-              return guard.tk(new Token('', literal, this.sp.name, line, column))
-            }
-          }
-        }
+    const templates = this.sp.templates
+    const template = templates[templates.length - 1]
+    if (template && template.depth === 0 && this.sp.startsWith(template.quotation.interpolation!.close)) {
+      // the interpolation ends, and the template goes on
+      const close = template.quotation.interpolation!.close
+      this.sp.advance(close.length)
+      return this.quoted(template.quotation, start, close, true)
+    }
+
+    // check quoted strings
+    for (let quote in rules.quotes) {
+      if (this.sp.startsWith(quote)) {
+        this.sp.advance(quote.length)
+        return this.quoted(rules.quotes[quote], start, quote, false)
       }
+    }
+    // check quoted strings whose stop symbols depend on their start
+    for (let i in rules.dynamicQuotes) {
+      const quote = rules.dynamicQuotes[i]
+      const m = matchAt(quote.pat, this.sp.source, this.sp.index)
+      if (m !== null) {
+        this.sp.advance(m[0].length)
+        return this.quoted({ ...quote.quotation, stop: quote.stop(m) }, start, m[0], false)
+      }
+    }
 
+    // check every static rule, then every dynamic rule, for the first or, in longest-match lexing, the longest text matched
+    const m = rules.matcher.match(this.sp.source, this.sp.index)
+    if (!m) {
       throw new ParseFailure(`invalid token`, this.sp.name, this.sp.line, this.sp.column)
-    })()
+    }
+    const { literal, tk } = m
+    const line = this.sp.line
+    const column = this.sp.column
+    this.sp.advance(literal.length)
+    const resultToken = typeof tk === 'string' ? new Token(tk, literal, this.sp.name, line, column) : tk(new Token('', literal, this.sp.name, line, column))
 
     // check built-in erroneous token types
     if (resultToken.type === TK_NUMBER_NOFOLLOW) {
       throw new ParseFailure(`unexpected '${resultToken.literal}': missing separators between a number and indistinguishable stuff`, this.sp.name, resultToken.line, resultToken.column)
     }
 
-    return resultToken
+    // count the nesting inside an embedded expression, whose end is found above only when nothing is left unclosed
+    if (template) {
+      const { nested, close } = template.quotation.interpolation!
+      const depth = resultToken.literal === nested ? template.depth + 1 : resultToken.literal === close ? template.depth - 1 : template.depth
+      if (depth !== template.depth) {
+        this.sp.templates = templates.slice(0, -1).concat({ quotation: template.quotation, depth })
+      }
+    }
+
+    return this.locate(resultToken, start)
+  }
+
+  // sets the offset and the end position of a token scanned from `start` to the current position
+  private locate(token: Token, start: Position): Token {
+    token.start = start
+    token.end = this.sp.position
+    if (this.trivia) {
+      token.text = this.sp.original(token.offset, token.end.offset)
+      this.attachTrivia(token)
+    }
+    return token
+  }
+
+  // divides the trivia skipped before `token`, or before the end of file if not given, between it and the token before.
+  // the token before takes the trivia up to the end of its line, or all of it at the end of file
+  private attachTrivia(token?: Token) {
+    const previous = this.sp.lastToken
+    const end = token ? token.offset : this.sp.offset
+    const trivia = this.triviaBetween(previous ? previous.end.offset : this.sp.sourceOffset, end)
+    if (!token) {
+      // carriage returns cleaned from the end of the source
+      const returns = this.sp.original(end, end, true)
+      if (returns) {
+        trivia.push({ kind: 'whitespace', text: returns })
+      }
+    }
+    const newline = trivia.map(x => x.kind).indexOf('newline')
+    const cut = !previous ? 0 : !token || newline < 0 ? trivia.length : newline + 1
+    if (previous) {
+      previous.trailingTrivia = trivia.slice(0, cut)
+    } else if (!token) {
+      this.atEnd.trivia = trivia
+    }
+    if (token) {
+      token.leadingTrivia = trivia.slice(cut)
+      this.sp.lastToken = token
+    }
+  }
+
+  // the whitespaces, line breaks and comments from offset `start` to `end`, which `skipWhites` has skipped
+  private triviaBetween(start: number, end: number): Trivia[] {
+    const source = this.sp.source
+    const base = this.sp.sourceOffset
+    const { line: lc, nested: nc } = this.currentRuleSet.comment
+    const at = (offset: number, text?: string) => !!text && source.startsWith(text, offset - base)
+    const trivia: Trivia[] = []
+    const push = (kind: TriviaKind, from: number, to: number) => trivia.push({ kind, text: this.sp.original(from, to) })
+    let i = start
+    while (i < end) {
+      const from = i
+      if (source[i - base] === '\n') {
+        push('newline', from, ++i)
+      } else if (lc && at(i, lc)) {
+        while (i < end && source[i - base] !== '\n') {
+          i++
+        }
+        push('line-comment', from, i)
+      } else if (nc && at(i, nc.begin)) {
+        let level = 1
+        i += nc.begin.length
+        while (level > 0 && i < end) {
+          if (nc.nested && at(i, nc.begin)) {
+            level++
+            i += nc.begin.length
+          } else if (at(i, nc.end)) {
+            level--
+            i += nc.end.length
+          } else {
+            i++
+          }
+        }
+        push('block-comment', from, i)
+      } else {
+        while (i < end && source[i - base] !== '\n' && !at(i, lc) && !(nc && at(i, nc.begin))) {
+          i++
+        }
+        push('whitespace', from, i)
+      }
+    }
+    return trivia
   }
 
   /**
@@ -423,15 +784,15 @@ export class Lexer {
   }
 
   skipWhites() {
-    let lc = this.ruleSet.comment.line
-    let nc = this.ruleSet.comment.nested
+    let lc = this.currentRuleSet.comment.line
+    let nc = this.currentRuleSet.comment.nested
     let ncLevel = 0
     while (!this.sp.eof) {
       if (ncLevel && nc) {
-        if (this.sp.rest.startsWith(nc.begin) && nc.nested) {
+        if (this.sp.startsWith(nc.begin) && nc.nested) {
           ncLevel++
           this.sp.advance(nc.begin.length)
-        } else if (this.sp.rest.startsWith(nc.end)) {
+        } else if (this.sp.startsWith(nc.end)) {
           ncLevel--
           this.sp.advance(nc.end.length)
         } else {
@@ -440,11 +801,11 @@ export class Lexer {
       } else {
         if (this.sp.char === ' ' || this.sp.char === '\t' || this.sp.char === '\n') {
           this.sp.advance()
-        } else if (lc && this.sp.rest.startsWith(lc)) {
+        } else if (lc && this.sp.startsWith(lc)) {
           while (!this.sp.eof && this.sp.char !== '\n') {
             this.sp.advance()
           }
-        } else if (nc && this.sp.rest.startsWith(nc.begin)) {
+        } else if (nc && this.sp.startsWith(nc.begin)) {
           ncLevel++
           this.sp.advance(nc.begin.length)
         } else {
@@ -455,30 +816,212 @@ export class Lexer {
   }
 
   clone(): Lexer {
-    const lexer = new Lexer(this.ruleSet, this.sp.sourceZipper.future, this.sp.name)
+    const lexer = new Lexer(this.ruleSet, '', this.sp.name)
     lexer.sp = this.sp.clone()
+    lexer.diagnostics = this.diagnostics
+    lexer.reached = this.reached
+    lexer.atEnd = this.atEnd
+    lexer.state = this.state
+    lexer.hint = this.hint
+    lexer.trivia = this.trivia
+    lexer.cst = this.cst
     return lexer
   }
+
+  /** Takes over the state of another lexer of the same source, e.g. a clone that has parsed a successful branch. */
+  assign(other: Lexer): Lexer {
+    this.sp.assign(other.sp)
+    this.diagnostics = other.diagnostics
+    this.state = other.state
+    this.hint = other.hint
+    return this
+  }
+
+  /**
+   * A new lexer at the start of the source changed by `edit`, whose offsets are in the original source of this lexer, counting the carriage returns as editors do.
+   * The carriage returns of the source are kept for `SourcePosition.original`. The edit takes time in proportion to the text inserted rather than to the source,
+   * whose lines are looked up through the source of this lexer, and the positions in the source of this lexer follow the edit (see `Token.start`).
+   */
+  edit(edit: TextEdit): Lexer {
+    if (this.sp.stream) {
+      throw new Error('editing a streamed source')
+    }
+    const lexer = new Lexer(this.ruleSet, '', this.sp.name, { trivia: this.trivia })
+    lexer.sp = this.sp.edited(edit)
+    return lexer
+  }
+
+  /**
+   * A copy of this lexer at the same place of the source of `to`, which is made by edits of the source of this lexer (see `edit`),
+   * or undefined if the text the position is in is replaced, or the position is moved in a layout.
+   */
+  rebase(to: Lexer): Lexer | undefined {
+    const lexer = this.clone()
+    lexer.reached = to.reached
+    return lexer.sp.follow(to.sp) ? lexer : undefined
+  }
+
+  /**
+   * Whether this lexer lexes the text after its position as `earlier` does, where `earlier` is at the same place of this source or an earlier one (see `edit`).
+   * After an edit before them, they must be in the same lexer modes and template strings, and each token before them must end right at them if they keep trivia.
+   * The token before this lexer then takes the trailing trivia of the token before `earlier`, so that the tokens lexed by `earlier` can be reused.
+   */
+  resumes(earlier: Lexer): boolean {
+    const after = earlier.sp.afterEdit(this.sp)
+    const modes = this.sp.modes
+    const templates = this.sp.templates
+    if (after && (modes.length !== earlier.sp.modes.length || modes.some((mode, i) => mode !== earlier.sp.modes[i]) ||
+      templates.length !== earlier.sp.templates.length || templates.some((x, i) => x.quotation !== earlier.sp.templates[i].quotation || x.depth !== earlier.sp.templates[i].depth))) {
+      return false
+    }
+    const previous = this.sp.lastToken
+    const earlierPrevious = earlier.sp.lastToken
+    if (!this.trivia || previous === earlierPrevious) {
+      return true
+    } else if (!previous || !earlierPrevious || !endsAt(earlierPrevious, previous.end.offset) || after && previous.end.offset !== this.sp.offset) {
+      return false
+    }
+    previous.trailingTrivia = earlierPrevious.trailingTrivia
+    return true
+  }
 }
 
+// whether a token ends at an offset, after following the edits made since it is lexed
+function endsAt(token: Token, offset: number): boolean {
+  return token.end instanceof TrackedPosition && token.end.follows() && token.end.offset === offset
+}
+
+// the failure of a parser passed over at a position, chained after those left earlier there (see `Lexer.hint`)
+export interface Hint {
+  failure: ExpectationFailure
+  offset: number
+  resolved: number
+  earlier?: Hint
+  // the failures of the chain merged, once a failure is thrown at the position
+  merged?: ExpectationFailure
+}
+
+export interface LexerOptions {
+  // gives each token its text in the source and the trivia around it, i.e. the whitespaces, line breaks and comments skipped, so that the source is reproduced by
+  // the leading trivia, the text and the trailing trivia of the tokens in turn, with the carriage returns too. not supported for streamed sources.
+  // the trailing trivia of a token, up to the end of its line (or the end of file), is given once the lexer has scanned past it.
+  // a source without tokens keeps its trivia at the end of file, in `lexer.atEnd`
+  trivia?: boolean
+}
+
+/** Kinds of the trivia, which are the parts of a source between tokens. A line comment does not include the line break ending it. */
+export type TriviaKind = 'whitespace' | 'newline' | 'line-comment' | 'block-comment'
+
+export interface Trivia {
+  kind: TriviaKind
+  text: string
+}
+
+/**
+ * A change of a source, replacing the text from offset `start` to `end` (exclusive) by `text`.
+ * The offsets count the carriage returns of the original source, as editors do, so they are `originalOffset`s of positions rather than `offset`s.
+ */
+export interface TextEdit {
+  start: number
+  end: number
+  text: string
+}
+
+/** A `TextEdit` made of a source, located in the source with the carriage returns cleaned: the edited text is from `start` to `oldEnd` before and to `newEnd` after. */
+export interface SourceEdit {
+  start: Position
+  oldEnd: Position
+  newEnd: Position
+}
+
+// count of characters the lexer may look past the end of a token to end it, e.g. by the patterns of numbers refusing letters following them
+const LOOKAHEAD = 3
+
+// count of characters received ahead of a token before lexing it from a stream, so that the patterns see what follows the token.
+// a token longer than this is still lexed correctly if it reaches the end of the received source, which makes the lexer pull more
+const STREAM_LOOKAHEAD = 4096
+
 export class Token {
   sourceName: string
   type: string
   literal: string
-  line: number
-  column: number
+  // where the token starts and right after it, which follow the edits of the source made afterwards (see `Lexer.edit`)
+  start: Position
+  end: Position
+  // the text of the token in the source, which may differ from `literal` (e.g. of quoted strings), and the trivia around the token, if the lexer keeps trivia (see `LexerOptions`)
+  text?: string
+  leadingTrivia: Trivia[]
+  trailingTrivia: Trivia[]
 
   constructor(type: string, literal: string, sourceName: string, line: number, column: number) {
     this.type = type
     this.literal = literal
     this.sourceName = sourceName
-    this.line = line
-    this.column = column
+    this.start = { offset: 0, originalOffset: 0, line, column }
+    this.end = this.start
+    this.leadingTrivia = []
+    this.trailingTrivia = []
+  }
+
+  get line(): number {
+    return this.start.line
+  }
+
+  set line(line: number) {
+    this.start = { offset: this.offset, originalOffset: this.start.originalOffset, line, column: this.column }
+  }
+
+  get column(): number {
+    return this.start.column
+  }
+
+  set column(column: number) {
+    this.start = { offset: this.offset, originalOffset: this.start.originalOffset, line: this.line, column }
+  }
+
+  // count of characters (UTF-16 code units) before the token in the source without its carriage returns (see `Position`)
+  get offset(): number {
+    return this.start.offset
+  }
+
+  set offset(offset: number) {
+    this.start = { offset, originalOffset: this.start.originalOffset + offset - this.offset, line: this.line, column: this.column }
+  }
+
+  // count of characters before the token in the original source, with its carriage returns (see `Position`)
+  get originalOffset(): number {
+    return this.start.originalOffset
   }
 }
 
 type TokenMapper = (token: Token) => Token
 
+// how a kind of quoted string is lexed after its start symbol
+interface Quotation {
+  tokenType: string
+  stop: string
+  escape: boolean
+  multiline: boolean
+  // whether the common indentation of the lines is stripped
+  dedent: boolean
+  // whether the literal of the token includes the start and stop symbols
+  keepDelimiters: boolean
+  // the symbols around expressions embedded in a template string, and the symbol nesting inside the expressions that `close` closes
+  interpolation?: { open: string, close: string, nested: string }
+}
+
+/** How a token changes the mode of lexing (see the `modes` preset): pushing a mode, switching the mode on the top of the stack (or pushing it if none), or popping the top. */
+export type ModeAction = { push: string } | { switch: string } | 'pop'
+
+export type Associativity = 'none' | 'left' | 'right'
+export type Fixity = 'infix' | 'prefix' | 'postfix'
+
+export interface OperatorPrecedence {
+  precedence: number
+  associativity: Associativity
+  fixity: Fixity
+}
+
 const TK_KEYWORD = '__kw_'
 const TK_QUOTED_STRING = '__quoted_by_'
 const TK_NUMBER_NOFOLLOW = '__number_nofollow'
@@ -489,20 +1032,38 @@ export class RuleSet {
   skipSpaces: boolean
   staticGuard: Map<string, string | TokenMapper>
   dynamicGuard: { pat: RegExp, tk: string | TokenMapper }[]
+  longestMatch: boolean
+  // priorities of the free rules that are given ones, by their patterns
+  priorities: Map<string | RegExp, number>
+  // the static and dynamic rules compiled, once lexing starts
+  private compiled?: Matcher
   comment: { line?: string, nested?: { begin: string, end: string, nested: boolean } }
-  quotes: { [starts: string]: { tokenType: string, stop: string, escape: boolean, multiline: boolean } }
+  quotes: { [starts: string]: Quotation }
+  // quoted strings starting by patterns, whose stop symbols are computed from the matches of the start
+  dynamicQuotes: { pat: RegExp, stop: (start: RegExpMatchArray) => string, quotation: Quotation }[]
+  // literals of the brackets inside which layout is ignored, if the source is laid out
+  layout?: { opening: string[], closing: string[] }
+  // rule sets of the modes, which are only used by the rule set lexing from the start
+  modes: { [name: string]: RuleSet }
+  // changes of the mode after tokens of the types
+  modeActions: { [tokenType: string]: ModeAction }
   precedence: {
-    static: { [operators: string]: { precedence: number, associativity: 'none' | 'left' | 'right' } },
-    dynamic: { pattern: RegExp, precedence: number, associativity: 'none' | 'left' | 'right' }[]
+    // an operator may be registered with different fixities, e.g. prefix and infix '-'
+    static: { [operators: string]: OperatorPrecedence[] },
+    dynamic: ({ pattern: RegExp } & OperatorPrecedence)[]
   }
 
   constructor(
-    // defines tokens by patterns
-    freeRules: { pattern: string | RegExp, tokenType: string | TokenMapper }[],
+    // defines tokens by patterns, changing the mode of lexing after the tokens if `mode` is given (see the `modes` preset).
+    // `priority` (default 0) breaks ties of rules matching texts of the same length in longest-match lexing (see the `longestMatch` preset), the higher the first
+    freeRules: { pattern: string | RegExp, tokenType: string | TokenMapper, mode?: ModeAction, priority?: number }[],
     // use presets as shortcut
     presetConfig: {
       // whether to leave out all free whitespaces (not in a string or comment), default `true`
       skipSpaces?: boolean,
+      // whether to lex the longest text that any rule matches (maximal munch), rather than the text of the first rule that matches. default: false.
+      // ties are broken by keywords first (see `keywords`), then by priorities, then by the order of the rules, string patterns before regular expressions
+      longestMatch?: boolean,
       // specifies what starts a line comment (make the rest of the line commented).
       // if line comment has special rules (like that in Haskell), this option should be set undefined.
       lineComment?: string,
@@ -555,33 +1116,63 @@ export class RuleSet {
         | {[tokenTypes: string]: string  /* multiple symbols to quote different kinds of strings, a tokenType specified for each kind of string.
           //                                e.g. { "'": 'string', '"': 'string', '`': 'string-template', '/': 'regex' } */
           | {
-            start: string,                  /* the start symbol of this kind of quoted string. e.g. 'r"' */
-            stop: string,                   /* the end symbol of this kind of quoted string. e.g. '"' */
+            start: string | RegExp,         /* the start symbol of this kind of quoted string, or its pattern. e.g. 'r"', /^r(#*)"/ for Rust raw strings */
+            stop: string                    /* the end symbol of this kind of quoted string. e.g. '"' */
+            | ((start: RegExpMatchArray) => string), /* or the end symbol computed from the match of a pattern `start`, for delimiters chosen by the source.
+            //                                 e.g. m => '"' + m[1] for Rust raw strings, m => '\n' + m[1] for heredocs started by /^<<(\w+)\n/ */
             escape?: boolean,               /* whether escape characters in the string should be parsed. default: true. */
-            multiline?: boolean             /* whether the string allows multiline literal. default: false */
+            multiline?: boolean,            /* whether the string allows multiline literal. default: false */
             //                              /* e.g. { tokenType: 'python-raw-str', start: 'r"', end: '"', escape: false } */
+            dedent?: boolean,               /* whether to strip the indentation common to all lines that are not blank, and to empty the blank lines,
+            //                                 as Python's textwrap.dedent. default: false. not supported with `interpolation` */
+            keepDelimiters?: boolean,       /* whether the literal of the token includes the start and stop symbols. default: false */
+            interpolation?: {               /* makes the string a template embedding expressions between `open` and `close`, which are lexed by the rules as usual.
+              //                               the string is then split into tokens of types 'template-start', 'template-middle' and 'template-end' around the expressions,
+              //                               or is a single token of `tokenType` if it embeds none. e.g. { open: '${', close: '}' } for JavaScript */
+              open: string,
+              close: string,
+              nested?: string               /* the symbol inside the expressions that opens what `close` closes, so that `close` ends the expression only if unmatched.
+              //                               default: the last character of `open` */
+            }
           }
         }
       },
-      // specifies all keywords (reserved identifiers) in the language
+      // specifies all keywords (reserved identifiers) in the language.
+      // in longest-match lexing, a keyword wins over the other rules matching the same text, so that e.g. `if` is a keyword and `iffy` is an identifier
       keywords?: (string | RegExp)[],
+      // makes the lexer emit tokens of the layout of lines for an offside-rule language (e.g. Python):
+      // `newline` at the end of each line, `indent` before a line indented more than the block, and `dedent` for each block ended by a line indented less.
+      // lines that are blank or of comments only are not laid out, and neither are lines inside brackets. indentation is counted in characters
+      layout?:
+        true                              /* default: { brackets: [['(', ')'], ['[', ']'], ['{', '}']] } */
+      | {
+        brackets?: string[][]             /* pairs of literals of the opening and closing brackets. e.g. [['(', ')'], ['begin', 'end']] */
+      },
+      // named modes of lexing for languages whose tokens change by context (e.g. inside tags of HTML), each lexing by its own rule set.
+      // the mode on the top of the mode stack lexes, or this rule set if the stack is empty. free rules with `mode` push, switch or pop the modes
+      modes?: { [name: string]: RuleSet },
       // specifies all operators in order of their precedence in the language
       operators?: (
         string | RegExp                   /* operator(s) in its pattern. associativity defaults to 'none'. e.g. '\\^' for C, '+.*' for all operators starts with '+' in Scala */
-      | { pattern: string | RegExp, associativity: 'none' | 'left' | 'right' }   /* an operator in its pattern with specified associativity */
-      | { pattern: string | RegExp, associativity: 'none' | 'left' | 'right' }[] /* operator(s) in their pattern and in the same precedence, with specified associativity.
+      | { pattern: string | RegExp, associativity: Associativity, fixity?: Fixity }   /* an operator in its pattern with specified associativity and fixity (default: 'infix') */
+      | { pattern: string | RegExp, associativity: Associativity, fixity?: Fixity }[] /* operator(s) in their pattern and in the same precedence, with specified associativity.
       //                                                   e.g. { '+': 'left', '-': 'left' } for C */
       )[]
     }
   ) {
-    this.skipSpaces = presetConfig.skipSpaces || true
+    this.skipSpaces = presetConfig.skipSpaces === undefined ? true : presetConfig.skipSpaces
     this.staticGuard = new Map()
     this.dynamicGuard = []
+    this.longestMatch = presetConfig.longestMatch || false
+    this.priorities = new Map()
     this.comment = {
       line: undefined,
       nested: undefined
     }
     this.quotes = {}
+    this.dynamicQuotes = []
+    this.modes = presetConfig.modes || {}
+    this.modeActions = {}
     this.precedence = {
       static: {},
       dynamic: []
@@ -589,6 +1180,15 @@ export class RuleSet {
 
     for (let i in freeRules) {
       const rule = freeRules[i]
+      if (rule.mode) {
+        if (typeof rule.tokenType !== 'string') {
+          throw new Error(`lex rule: a rule changing the mode must have a token type, got a token mapper for ${rule.pattern}`)
+        }
+        this.modeActions[rule.tokenType] = rule.mode
+      }
+      if (rule.priority !== undefined) {
+        this.priorities.set(rule.pattern, rule.priority)
+      }
       if (typeof rule.pattern === 'string') {
         this.staticGuard.set(rule.pattern, rule.tokenType)
       } else {
@@ -730,7 +1330,9 @@ export class RuleSet {
           tokenType: TK_QUOTED_STRING + quote,
           stop: quote,
           escape: true,
-          multiline: false
+          multiline: false,
+          dedent: false,
+          keepDelimiters: false
         }
       } else {
         let quotes = presetConfig.string.quotes
@@ -739,7 +1341,9 @@ export class RuleSet {
             tokenType: TK_QUOTED_STRING + quotes,
             stop: quotes,
             escape: true,
-            multiline: false
+            multiline: false,
+            dedent: false,
+            keepDelimiters: false
           }
         } else if (quotes instanceof Array) {
           if (quotes.length === 1) {
@@ -748,7 +1352,9 @@ export class RuleSet {
               tokenType: TK_QUOTED_STRING + quote,
               stop: quote,
               escape: true,
-              multiline: false
+              multiline: false,
+              dedent: false,
+              keepDelimiters: false
             }
           } else if (quotes.length >= 2) {
             let [start, stop] = quotes
@@ -756,7 +1362,9 @@ export class RuleSet {
               tokenType: TK_QUOTED_STRING + start + stop,
               stop,
               escape: true,
-              multiline: false
+              multiline: false,
+              dedent: false,
+              keepDelimiters: false
             }
           } else {
             throw new RangeError('lexer rule: quotes: expected at least 1 element for input type of Array')
@@ -769,14 +1377,35 @@ export class RuleSet {
                 tokenType,
                 stop: quote,
                 escape: true,
-                multiline: false
+                multiline: false,
+                dedent: false,
+                keepDelimiters: false
               }
             } else {
-              this.quotes[quote.start] = {
+              if (quote.dedent && quote.interpolation) {
+                throw new TypeError(`lexer rule: quotes: ${tokenType}: dedent is not supported with interpolation`)
+              }
+              const quotation = {
                 tokenType,
-                stop: quote.stop,
+                stop: typeof quote.stop === 'string' ? quote.stop : '',
                 escape: quote.escape === undefined ? true : quote.escape,
-                multiline: quote.multiline === undefined ? false : quote.multiline
+                multiline: quote.multiline === undefined ? false : quote.multiline,
+                dedent: quote.dedent === undefined ? false : quote.dedent,
+                keepDelimiters: quote.keepDelimiters === undefined ? false : quote.keepDelimiters,
+                interpolation: quote.interpolation && {
+                  open: quote.interpolation.open,
+                  close: quote.interpolation.close,
+                  nested: quote.interpolation.nested === undefined ? quote.interpolation.open.slice(-1) : quote.interpolation.nested
+                }
+              }
+              const stop = quote.stop
+              if (typeof quote.start === 'string') {
+                if (typeof stop !== 'string') {
+                  throw new TypeError(`lexer rule: quotes: ${tokenType}: expected a pattern to start the string for a computed stop`)
+                }
+                this.quotes[quote.start] = quotation
+              } else {
+                this.dynamicQuotes.push({ pat: quote.start, stop: typeof stop === 'string' ? () => stop : stop, quotation })
               }
             }
           }
@@ -784,53 +1413,46 @@ export class RuleSet {
       }
     }
     if (presetConfig.operators) {
+      const register = (pattern: string | RegExp, precedence: OperatorPrecedence) => {
+        if (typeof pattern === 'string') {
+          (this.precedence.static[pattern] = this.precedence.static[pattern] || []).push(precedence)
+        } else {
+          this.precedence.dynamic.push({ pattern, ...precedence })
+        }
+      }
       let highest = presetConfig.operators.length - 1
       for (let i = highest; i >= 0; i--) {
         let op = presetConfig.operators[i]
-        if (typeof op === 'string') {
-          this.precedence.static[op] = {
-            precedence: i,
-            associativity: 'none'
-          }
-        } else if (op instanceof RegExp) {
-          this.precedence.dynamic.push({
-            pattern: op,
+        if (typeof op === 'string' || op instanceof RegExp) {
+          register(op, {
             precedence: i,
-            associativity: 'none'
+            associativity: 'none',
+            fixity: 'infix'
           })
         } else if (op instanceof Array) {
           for (let j in op) {
             let o = op[j]
-            if (typeof o.pattern === 'string') {
-              this.precedence.static[o.pattern] = {
-                precedence: i,
-                associativity: o.associativity
-              }
-            } else {
-              this.precedence.dynamic.push({
-                pattern: o.pattern,
-                precedence: i,
-                associativity: o.associativity
-              })
-            }
-          }
-        } else {
-          if (typeof op.pattern === 'string') {
-            this.precedence.static[op.pattern] = {
-              precedence: i,
-              associativity: op.associativity
-            }
-          } else {
-            this.precedence.dynamic.push({
-              pattern: op.pattern,
+            register(o.pattern, {
               precedence: i,
-              associativity: op.associativity
+              associativity: o.associativity,
+              fixity: o.fixity || 'infix'
             })
           }
+        } else {
+          register(op.pattern, {
+            precedence: i,
+            associativity: op.associativity,
+            fixity: op.fixity || 'infix'
+          })
         }
       }
     }
 
+    if (presetConfig.layout) {
+      const brackets = presetConfig.layout === true || !presetConfig.layout.brackets ? [['(', ')'], ['[', ']'], ['{', '}']] : presetConfig.layout.brackets
+      this.layout = { opening: brackets.map(x => x[0]), closing: brackets.map(x => x[1]) }
+    }
+
     // comments are processed in tokenizing, registered here
     if (presetConfig.lineComment) {
       this.comment.line = presetConfig.lineComment
@@ -867,102 +1489,928 @@ export class RuleSet {
       }
     }
   }
+
+  get matcher(): Matcher {
+    if (!this.compiled) {
+      this.compiled = new Matcher(this)
+    }
+    return this.compiled
+  }
 }
 
-function cleanCRLF(str: string): string {
-  let chs = str.split('')
-  for (let i = 0; i < chs.length;) {
-    if (chs[i] === '\r') {
-      chs.splice(i, 1)
+/**
+ * The static rules and then the dynamic rules of a rule set, compiled to alternations of sticky regular expressions.
+ * The alternatives are tried in the order of the rules, so the first rule matching wins as if the rules were tried one by one,
+ * except that a static rule matching the whole text up to the next space wins over the static rules before it.
+ * In longest-match lexing, each rule is instead a lookahead capturing the text it matches, so that one search tries all of them.
+ * Patterns that cannot be combined, e.g. of flags, of backreferences, looking at the text before or not anchored by a leading '^', are tried by themselves in their turn.
+ */
+class Matcher {
+  private segments: ({ regex: RegExp, alternatives: { group: number, tk: string | TokenMapper }[] } | { pat: RegExp, tk: string | TokenMapper })[]
+  // in longest-match lexing, the lookaheads of the static rules, whose texts are captured by the first group if any, and of the dynamic rules
+  private lookaheads?: { regex: RegExp, statics: boolean, dynamics: (({ group: number } | { pat: RegExp }) & Candidate)[] }
+  private rules: RuleSet
+
+  constructor(rules: RuleSet) {
+    this.rules = rules
+    this.segments = []
+    if (rules.longestMatch) {
+      this.compileLookaheads()
     } else {
+      this.compileSegments()
+    }
+  }
+
+  private compileSegments() {
+    let sources: string[] = []
+    let alternatives: { group: number, tk: string | TokenMapper }[] = []
+    let groups = 0
+    const flush = () => {
+      if (sources.length > 0) {
+        this.segments.push({ regex: new RegExp(sources.join('|'), 'y'), alternatives })
+        sources = []
+        alternatives = []
+        groups = 0
+      }
+    }
+    const combine = (body: string, tk: string | TokenMapper) => {
+      sources.push(`(${body})`)
+      alternatives.push({ group: groups + 1, tk })
+      groups += countGroups(body)
+    }
+    // the static rules matching the whole text up to the next space, first where the rules before them may match a part of it
+    const keys: string[] = []
+    this.rules.staticGuard.forEach((tk, key) => {
+      if (key.length > 0 && key.indexOf(' ') < 0 && keys.some(x => key.startsWith(x) || x.startsWith(key + ' '))) {
+        combine(`${escapeRegExp(key)}(?= |$)`, tk)
+      }
+      keys.push(key)
+    })
+    this.rules.staticGuard.forEach((tk, key) => {
+      if (key.length > 0) {
+        combine(escapeRegExp(key), tk)
+      }
+    })
+    this.rules.dynamicGuard.forEach(({ pat, tk }) => {
+      const body = pat.flags === '' ? anchoredBody(pat.source) : undefined
+      if (body === undefined) {
+        flush()
+        this.segments.push({ pat, tk })
+      } else {
+        combine(body, tk)
+      }
+    })
+    flush()
+  }
+
+  private compileLookaheads() {
+    const sources: string[] = []
+    let groups = 0
+    // the static rules matching at the same index are of different lengths, the longest of which is the first alternative matching
+    const keys: string[] = []
+    this.rules.staticGuard.forEach((_, key) => {
+      if (key.length > 0) {
+        keys.push(key)
+      }
+    })
+    if (keys.length > 0) {
+      sources.push(`(?=(${keys.sort((a, b) => b.length - a.length).map(escapeRegExp).join('|')})|)`)
+      groups = 1
+    }
+    const dynamics: (({ group: number } | { pat: RegExp }) & Candidate)[] = []
+    this.rules.dynamicGuard.forEach(({ pat, tk }) => {
+      const body = pat.flags === '' ? anchoredBody(pat.source) : undefined
+      const candidate = { tk, keyword: isKeyword(tk), priority: this.rules.priorities.get(pat) || 0 }
+      if (body === undefined) {
+        dynamics.push({ pat, ...candidate })
+      } else {
+        // the group is undefined, rather than empty, if the rule does not match
+        sources.push(`(?=(${body})|)`)
+        dynamics.push({ group: groups + 1, ...candidate })
+        groups += countGroups(body)
+      }
+    })
+    this.lookaheads = { regex: new RegExp(sources.join(''), 'y'), statics: keys.length > 0, dynamics }
+  }
+
+  // the rule matching `source` at `index`, the first or, in longest-match lexing, the longest, and the text it matches
+  match(source: string, index: number): { literal: string, tk: string | TokenMapper } | undefined {
+    if (this.lookaheads) {
+      return this.longest(source, index)
+    }
+    let rest: string | undefined
+    for (let i = 0; i < this.segments.length; i++) {
+      const segment = this.segments[i]
+      if ('regex' in segment) {
+        segment.regex.lastIndex = index
+        const m = segment.regex.exec(source)
+        if (m !== null) {
+          for (let j = 0; j < segment.alternatives.length; j++) {
+            const alternative = segment.alternatives[j]
+            if (m[alternative.group] !== undefined) {
+              return { literal: m[0], tk: alternative.tk }
+            }
+          }
+        }
+      } else {
+        rest = rest === undefined ? source.slice(index) : rest
+        const m = rest.match(segment.pat)
+        if (m !== null) {
+          return { literal: m[0], tk: segment.tk }
+        }
+      }
+    }
+    return undefined
+  }
+
+  // the longest text matched by any static or dynamic rule, breaking ties by keywords, priorities and then the order of the rules
+  private longest(source: string, index: number): { literal: string, tk: string | TokenMapper } | undefined {
+    const { regex, statics, dynamics } = this.lookaheads!
+    regex.lastIndex = index
+    const m = regex.exec(source)!
+    let best: { literal: string } & Candidate | undefined
+    if (statics && m[1] !== undefined) {
+      const tk = this.rules.staticGuard.get(m[1])!
+      best = { literal: m[1], tk, keyword: isKeyword(tk), priority: this.rules.priorities.get(m[1]) || 0 }
+    }
+    for (let i = 0; i < dynamics.length; i++) {
+      const candidate = dynamics[i]
+      let literal: string | undefined
+      if ('group' in candidate) {
+        literal = m[candidate.group]
+      } else {
+        const matched = matchAt(candidate.pat, source, index)
+        literal = matched === null ? undefined : matched[0]
+      }
+      if (literal !== undefined && (!best || literal.length > best.literal.length || literal.length === best.literal.length && (
+        candidate.keyword !== best.keyword ? candidate.keyword : candidate.priority > best.priority
+      ))) {
+        best = { literal, ...candidate }
+      }
+    }
+    return best
+  }
+}
+
+// a rule competing in longest-match lexing, with what breaks its ties
+interface Candidate {
+  tk: string | TokenMapper
+  keyword: boolean
+  priority: number
+}
+
+function isKeyword(tk: string | TokenMapper): boolean {
+  return typeof tk === 'string' && tk.startsWith(TK_KEYWORD)
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\\/]/g, '\\$&')
+}
+
+// the groups of a pattern, counting the group around it
+function countGroups(body: string): number {
+  return new RegExp(`(${body})|`).exec('')!.length - 1
+}
+
+// the pattern after its leading '^', if it is anchored by the '^' only and can be an alternative of others
+function anchoredBody(source: string): string | undefined {
+  if (source[0] !== '^') {
+    return undefined
+  }
+  let depth = 0
+  let inClass = false
+  for (let i = 1; i < source.length; i++) {
+    const c = source[i]
+    if (c === '\\') {
+      // backreferences are numbered differently among the alternatives, and word boundaries would see the text before the index
+      if (/[1-9k]/.test(source[i + 1]) || !inClass && /[bB]/.test(source[i + 1])) {
+        return undefined
+      }
       i++
+    } else if (inClass) {
+      inClass = c !== ']'
+    } else if (c === '[') {
+      inClass = true
+    } else if (c === '(') {
+      // so are named groups, which must be unique, and lookbehinds would see the text before the index
+      if (source.slice(i + 1, i + 3) === '?<') {
+        return undefined
+      }
+      depth++
+    } else if (c === ')') {
+      depth--
+    } else if (c === '^' || c === '|' && depth === 0) {
+      return undefined
     }
   }
-  return chs.join('')
+  return source.slice(1)
 }
 
+// sticky versions of the anchored patterns matched by `matchAt`, or null for the patterns that cannot be made sticky
+const stickies = new WeakMap<RegExp, RegExp | null>()
+
+// matches a pattern anchored by '^' at `index` of `source`, without slicing the source if the pattern can be made sticky
+function matchAt(pat: RegExp, source: string, index: number): RegExpMatchArray | null {
+  let sticky = stickies.get(pat)
+  if (sticky === undefined) {
+    const body = pat.flags === '' ? anchoredBody(pat.source) : undefined
+    sticky = body === undefined ? null : new RegExp(body, 'y')
+    stickies.set(pat, sticky)
+  }
+  if (sticky === null) {
+    const m = source.slice(index).match(pat)
+    return m !== null && m.index === 0 ? m : null
+  }
+  sticky.lastIndex = index
+  return sticky.exec(source)
+}
+
+// sticky versions of the patterns matched by `matchSticky`
+const anywhereStickies = new WeakMap<RegExp, RegExp>()
+
+// matches a pattern at `index` of `source`, as if it were anchored there. unlike `matchAt`, any pattern can be made sticky, since it is not combined with others
+function matchSticky(pat: RegExp, source: string, index: number): RegExpMatchArray | null {
+  let sticky = anywhereStickies.get(pat)
+  if (sticky === undefined) {
+    // a leading '^' is redundant for a sticky pattern, and would only match at the start of the source
+    sticky = new RegExp(pat.source[0] === '^' ? pat.source.slice(1) : pat.source, pat.flags.replace(/[gy]/g, '') + 'y')
+    anywhereStickies.set(pat, sticky)
+  }
+  sticky.lastIndex = index
+  return sticky.exec(source)
+}
+
+// strips the indentation common to the lines that are not blank, and empties the blank lines
+function dedent(str: string): string {
+  const lines = str.split('\n')
+  let indent: string | undefined
+  lines.forEach(line => {
+    const m = line.match(/^[ \t]*/)![0]
+    if (m.length < line.length) {
+      indent = indent === undefined ? m : commonPrefix(indent, m)
+    }
+  })
+  return lines.map(line => line.trim() === '' ? '' : line.slice((indent || '').length)).join('\n')
+}
+
+function commonPrefix(a: string, b: string): string {
+  let i = 0
+  while (i < a.length && i < b.length && a[i] === b[i]) {
+    i++
+  }
+  return a.slice(0, i)
+}
+
+function cleanCRLF(str: string): string {
+  return str.replace(/\r/g, '')
+}
+
+/**
+ * A location in the source. `offset` counts the characters (UTF-16 code units) before the location in the source without its carriage returns,
+ * like the indices of the lexed text, while `originalOffset` counts them in the original source, with the carriage returns, as editors do,
+ * so that spans can be edited by `TextEdit`s. Neither counts bytes.
+ */
+export interface Position {
+  offset: number
+  originalOffset: number
+  line: number
+  column: number
+}
+
+// a position but its original offset, which is found by the index of the lines where needed
+type Point = { offset: number, line: number, column: number }
+
+/**
+ * A position in a source, which is an offset into the immutable text of the source, with its line and column.
+ * Cloning, assigning and comparing positions take constant time.
+ */
 export class SourcePosition {
-  /* history is not used currently */
   name: string
-  sourceZipper: { history: string, future: string }
+  // the whole source, for rendering failures. of a stream, it is the kept text, which starts at `sourceOffset`, line `sourceLine` and column `sourceColumn`
+  source: string
+  sourceOffset: number
+  sourceLine: number
+  sourceColumn: number
   line: number
   column: number
+  // count of characters consumed from the start of the source
+  offset: number
+  // the streamed source, shared by the positions in it. `source` is then the received text only
+  stream?: SourceStream
+  // the layout of lines before the position, of a source lexed with the `layout` preset
+  layout?: Layout
+  // names of the lexer modes pushed (see the `modes` preset), the top last. it is replaced rather than modified in place, so positions can share it
+  modes: string[]
+  // the template strings whose embedded expressions are being lexed, the innermost last, each with the count of its `nested` symbols unclosed. replaced like `modes`
+  templates: { quotation: Quotation, depth: number }[]
+  // the lines of `source` and the carriage returns cleaned from it, shared by the positions in it
+  private lines: TextIndex
+  // the last token scanned before the position by a lexer keeping trivia, which takes its trailing trivia once the next token is scanned
+  lastToken?: Token
+  // the tokens and nodes parsed so far in the innermost rule building a concrete syntax tree
+  cstChildren?: CstList
 
   constructor(source: string, name?: string) {
     this.name = name || ''
-    source = cleanCRLF(source)
-    this.sourceZipper = {
-      history: '',
-      future: source
-    }
+    this.modes = []
+    this.templates = []
     this.line = 1
     this.column = 1
+    this.offset = 0
+    const returns: number[] = []
+    for (let i = source.indexOf('\r'); i > -1; i = source.indexOf('\r', i + 1)) {
+      returns.push(i - returns.length)
+    }
+    this.source = cleanCRLF(source)
+    this.sourceOffset = 0
+    this.sourceLine = 1
+    this.sourceColumn = 1
+    this.lines = new TextIndex(this.source, 0, 1, returns)
   }
 
-  get rest() {
-    return this.sourceZipper.future
+
+  // a position at the start of the source made by `edit` of this source (see `Lexer.edit`)
+  edited(edit: TextEdit): SourcePosition {
+    const sp = new SourcePosition('', this.name)
+    sp.lines = this.lines.edit(edit)
+    sp.source = sp.lines.text
+    return sp
   }
 
-  advance(step: number = 1) {
-    for (let i = 0; i < step; i++) {
-      this._step()
+  // the edit making the source, if it is made by `Lexer.edit`
+  get sourceEdit(): SourceEdit | undefined {
+    return this.lines.made
+  }
+
+  // whether the source has been edited since, so that the position is to `follow` the edits
+  get outdated(): boolean {
+    return this.lines.edited !== undefined
+  }
+
+  // moves the position through the edits made of its source up to the source of `to`, unless the text it is in is replaced or it is moved in a layout
+  follow(to: SourcePosition): boolean {
+    let lines = this.lines
+    let position: Point | undefined = { offset: this.offset, line: this.line, column: this.column }
+    while (lines !== to.lines) {
+      if (!lines.edited) {
+        throw new Error('following a position to a source not edited from its source')
+      }
+      lines = lines.edited
+      position = moved(position, lines.made!)
+      if (!position) {
+        return false
+      }
     }
+    if (this.layout && (position.offset !== this.offset || position.line !== this.line || position.column !== this.column)) {
+      return false
+    }
+    this.source = to.source
+    this.lines = to.lines
+    this.offset = position.offset
+    this.line = position.line
+    this.column = position.column
+    return true
   }
 
-  private _step() {
-    if (this.eof) {
-      throw new UnexpectedEOF(this.name)
+  // whether an edit made of the source since, up to the source of `to`, is before the position, which is then in the text following the edit
+  afterEdit(to: SourcePosition): boolean {
+    // the position is not moved by the edits before it
+    for (let lines = this.lines; lines !== to.lines && lines.edited; lines = lines.edited) {
+      if (this.offset > lines.edited.made!.start.offset) {
+        return true
+      }
     }
-    if (this.char === '\r') {
+    return false
+  }
+
+  /**
+   * The text of the original source from offset `start` to `end`, with the carriage returns cleaned from the source put back.
+   * A carriage return belongs to the text after it, so those before `end` are left out unless `throughEnd`.
+   */
+  original(start: number, end: number, throughEnd: boolean = false): string {
+    const base = this.sourceOffset
+    let text = ''
+    let last = start
+    this.lines.returnsWithin(start, throughEnd ? end + 1 : end).forEach(at => {
+      text += this.source.slice(last - base, at - base) + '\r'
+      last = at
+    })
+    return text + this.source.slice(last - base, end - base)
+  }
+
+  // index of the position in `source`
+  get index(): number {
+    return this.offset - this.sourceOffset
+  }
+
+  // the text after the position, which is sliced from the source. `startsWith` and `index` are cheaper for looking ahead
+  get rest(): string {
+    return this.source.slice(this.index)
+  }
+
+  // whether the text after the position starts with `text`
+  startsWith(text: string): boolean {
+    return this.source.startsWith(text, this.index)
+  }
+
+  // matches a pattern at the position, whether or not it is anchored by '^'
+  match(pattern: RegExp): RegExpMatchArray | null {
+    return matchSticky(pattern, this.source, this.index)
+  }
+
+  advance(step: number = 1) {
+    const available = this.source.length - this.index
+    if (step > available) {
+      this.moveTo(this.offset + available)
+      // `eof` throws `InputPending` if more of a stream is to come
+      if (this.eof) {
+        throw new UnexpectedEOF(this.name)
+      }
     }
-    if (this.char === '\n') {
-      this.line++
-      this.column = 0
+    if (step === 1) {
+      // the common case, which needs no search of the line
+      if (this.source[this.index] === '\n') {
+        this.line++
+        this.column = 1
+      } else {
+        this.column++
+      }
+      this.offset++
+    } else {
+      this.moveTo(this.offset + step)
     }
-    this.sourceZipper.future = this.sourceZipper.future.slice(1)
-    this.column++
+  }
+
+  private moveTo(offset: number) {
+    const { line, column } = this.lines.locate(offset)
+    this.offset = offset
+    this.line = line
+    this.column = column
+  }
+
+  /** The line and column of an offset in the source, which must be in the text of `source`. */
+  positionAt(offset: number): Position {
+    const { line, column } = this.lines.locate(offset)
+    return { offset, originalOffset: this.lines.originalOffset(offset), line, column }
   }
 
   get eof(): boolean {
-    return this.sourceZipper.future.length === 0
+    if (this.index < this.source.length) {
+      return false
+    }
+    if (this.stream && !this.stream.ended) {
+      throw new InputPending()
+    }
+    return true
+  }
+
+  // makes sure that `count` characters ahead are received if the source is streamed and not ended
+  ensure(count: number) {
+    if (this.stream && !this.stream.ended && this.source.length - this.index < count) {
+      throw new InputPending()
+    }
+  }
+
+  // takes the kept text of the stream, which has changed
+  refresh() {
+    const stream = this.stream!
+    if (this.offset < stream.offset) {
+      throw new Error('returning to the streamed source released')
+    }
+    this.source = stream.text
+    this.sourceOffset = stream.offset
+    this.sourceLine = stream.line
+    this.sourceColumn = stream.column
+    this.lines = new TextIndex(stream.text, stream.offset, stream.line, stream.returns, stream.column, stream.returnsReleased)
+  }
+
+  // the position, which follows the edits of the source made afterwards
+  get position(): Position {
+    return new TrackedPosition(this.lines, this.offset, this.line, this.column)
+  }
+
+  // count of layout tokens consumed before the position
+  get resolvedLayout(): number {
+    return this.layout ? this.layout.resolved : 0
   }
 
   get char(): string {
     if (this.eof) {
       throw new RangeError('lexer: getting char while EOF')
     }
-    return this.sourceZipper.future[0]
+    return this.source[this.index]
   }
 
   clone(): SourcePosition {
-    const sp = new SourcePosition(this.sourceZipper.future, this.name)
-    sp.line = this.line
-    sp.column = this.column
-    return sp
+    return new SourcePosition('', this.name).assign(this)
   }
 
   compareTo(other: SourcePosition): 'forward' | 'equal' | 'behind' | 'irrelevant' {
-    if (this.sourceZipper.future === other.sourceZipper.future && this.line === other.line && this.column === other.column && this.name === other.name) {
-      return 'equal'
-    } else if (this.name === other.name && this.sourceZipper.future.indexOf(other.sourceZipper.future) > -1) {
-      return 'behind'
-    } else if (this.name === other.name && other.sourceZipper.future.indexOf(this.sourceZipper.future) > -1) {
-      return 'forward'
-    } else {
+    if (this.name !== other.name) {
       return 'irrelevant'
+    } else if (this.offset !== other.offset) {
+      return this.offset > other.offset ? 'forward' : 'behind'
     }
+    // layout tokens take no characters, but are consumed too
+    const resolved = this.resolvedLayout - other.resolvedLayout
+    return resolved === 0 ? 'equal' : resolved > 0 ? 'forward' : 'behind'
   }
 
-  assign(other: SourcePosition): ThisType<SourcePosition> {
+  assign(other: SourcePosition): SourcePosition {
     this.name = other.name
-    this.sourceZipper.history = other.sourceZipper.history
-    this.sourceZipper.future = other.sourceZipper.future
+    this.source = other.source
+    this.sourceOffset = other.sourceOffset
+    this.sourceLine = other.sourceLine
+    this.sourceColumn = other.sourceColumn
+    this.lines = other.lines
+    this.lastToken = other.lastToken
+    this.cstChildren = other.cstChildren
+    this.stream = other.stream
+    this.layout = other.layout
+    this.modes = other.modes
+    this.templates = other.templates
     this.line = other.line
     this.column = other.column
+    this.offset = other.offset
     return this
   }
 }
 
+// count of edits whose text indexes are looked up through one another before they are flattened (see `TextIndex`)
+const EDIT_DEPTH = 32
+
+// The starts of the lines of a text and the offsets before which carriage returns are cleaned from it, in order, built once looked up.
+// The index of a text made by an edit (see `Lexer.edit`) is built of the index of the text edited, which is looked up outside the edit,
+// so that an edit takes time in proportion to the text it inserts. Once the indexes chain `EDIT_DEPTH` edits, the last one is built of its own text.
+class TextIndex {
+  // the text, which starts at `offset`, line `line` and column `column` of the source
+  text: string
+  private offset: number
+  private line: number
+  private column: number
+  private starts?: number[]
+  // the carriage returns cleaned from the text, by the offsets in the text before which they are, and the count of those cleaned before the text
+  private returns?: number[]
+  private returnsBefore: number
+  // the index of the text edited into this text, with the starts of the lines and the carriage returns in the text inserted,
+  // the counts of the carriage returns kept before and after the edit, at its start and its new end,
+  // and the counts of the carriage returns of the text edited before the start and through the old end of the edit
+  private base?: { index: TextIndex, starts: number[], returns: number[], keptBefore: number, keptAfter: number, before: number, through: number }
+  // count of indexes chained by `base`
+  private depth: number
+  // the edit making this text, if any
+  made?: SourceEdit
+  // the index of the text made by an edit of this text afterwards, which positions in this text follow (see `TrackedPosition`)
+  edited?: TextIndex
+
+  constructor(text: string, offset: number, line: number, returns?: number[], column: number = 1, returnsBefore: number = 0) {
+    this.text = text
+    this.offset = offset
+    this.line = line
+    this.column = column
+    this.returnsBefore = returnsBefore
+    this.returns = returns
+    this.depth = 0
+  }
+
+  locate(offset: number): { line: number, column: number } {
+    if (this.base) {
+      const { index, starts } = this.base
+      const { start, oldEnd, newEnd } = this.made!
+      if (offset <= start.offset) {
+        return index.locate(offset)
+      } else if (offset >= newEnd.offset) {
+        const { line, column } = index.locate(offset - newEnd.offset + oldEnd.offset)
+        return { line: line + newEnd.line - oldEnd.line, column: line === oldEnd.line ? column - oldEnd.column + newEnd.column : column }
+      }
+      const inserted = search(starts, offset)
+      return inserted < 0 ? { line: start.line, column: start.column + offset - start.offset } : { line: start.line + inserted + 1, column: offset - starts[inserted] + 1 }
+    }
+    if (!this.starts) {
+      this.starts = [0]
+      for (let i = this.text.indexOf('\n'); i > -1; i = this.text.indexOf('\n', i + 1)) {
+        this.starts.push(i + 1)
+      }
+    }
+    const index = offset - this.offset
+    // the last line starting at or before the index
+    const line = search(this.starts, index)
+    return { line: this.line + line, column: index - this.starts[line] + (line === 0 ? this.column : 1) }
+  }
+
+  // offsets from `from` to `to` (exclusive) before which carriage returns are cleaned, in order
+  returnsWithin(from: number, to: number): number[] {
+    if (!this.base) {
+      const returns = this.returns!
+      const found: number[] = []
+      for (let i = search(returns, from - this.offset - 1) + 1; i < returns.length && returns[i] + this.offset < to; i++) {
+        found.push(returns[i] + this.offset)
+      }
+      return found
+    }
+    const { index, returns, keptBefore, keptAfter } = this.base
+    const start = this.made!.start.offset
+    const newEnd = this.made!.newEnd.offset
+    const shift = newEnd - this.made!.oldEnd.offset
+    const found = from < start ? index.returnsWithin(from, Math.min(to, start)) : []
+    for (let i = 0; i < keptBefore && from <= start && start < to; i++) {
+      found.push(start)
+    }
+    returns.forEach(at => {
+      if (from <= at && at < to) {
+        found.push(at)
+      }
+    })
+    for (let i = 0; i < keptAfter && from <= newEnd && newEnd < to; i++) {
+      found.push(newEnd)
+    }
+    if (to > newEnd + 1) {
+      index.returnsWithin(Math.max(from, newEnd + 1) - shift, to - shift).forEach(at => found.push(at + shift))
+    }
+    return found
+  }
+
+  // the offset in the original text of an offset in the text, counting the carriage returns before it
+  originalOffset(offset: number): number {
+    return offset + this.returnsThrough(offset - 1)
+  }
+
+  // count of the carriage returns cleaned before `offset` or at it
+  private returnsThrough(offset: number): number {
+    if (!this.base) {
+      return this.returnsBefore + search(this.returns!, offset - this.offset) + 1
+    }
+    const { index, returns, keptBefore, keptAfter, before, through } = this.base
+    const { start, oldEnd, newEnd } = this.made!
+    if (offset < start.offset) {
+      return index.returnsThrough(offset)
+    }
+    const count = before + keptBefore + search(returns, offset) + 1
+    return offset < newEnd.offset ? count : count + keptAfter + index.returnsThrough(offset - newEnd.offset + oldEnd.offset) - through
+  }
+
+  // the offsets before which carriage returns are cleaned from the whole text
+  private allReturns(): number[] {
+    if (!this.base) {
+      return this.returns!.map(at => at + this.offset)
+    }
+    const { index, returns, keptBefore, keptAfter } = this.base
+    const { start, oldEnd, newEnd } = this.made!
+    const earlier = index.allReturns()
+    const all = earlier.filter(at => at < start.offset)
+    for (let i = 0; i < keptBefore; i++) {
+      all.push(start.offset)
+    }
+    returns.forEach(at => all.push(at))
+    for (let i = 0; i < keptAfter; i++) {
+      all.push(newEnd.offset)
+    }
+    earlier.forEach(at => {
+      if (at > oldEnd.offset) {
+        all.push(at + newEnd.offset - oldEnd.offset)
+      }
+    })
+    return all
+  }
+
+  // the offset in the text of an offset in the original text, which counts the carriage returns. an offset within a CRLF is that of its line feed
+  private cleaned(original: number): number {
+    // the first character at or after the original offset
+    let low = 0
+    let high = this.text.length
+    while (low < high) {
+      const middle = (low + high) >> 1
+      if (middle + this.returnsThrough(middle) < original) {
+        low = middle + 1
+      } else {
+        high = middle
+      }
+    }
+    return low
+  }
+
+  // the index of the text made by `edit`, whose offsets are in the original text, which is then `edited`
+  edit(edit: TextEdit): TextIndex {
+    const length = this.text.length + this.returnsThrough(this.text.length)
+    if (edit.start < 0 || edit.start > edit.end || edit.end > length) {
+      throw new Error(`edit ${edit.start}-${edit.end} is out of the source of length ${length}`)
+    }
+    const start = this.cleaned(edit.start)
+    const oldEnd = this.cleaned(edit.end)
+    const text = cleanCRLF(edit.text)
+    const returns: number[] = []
+    for (let i = edit.text.indexOf('\r'); i > -1; i = edit.text.indexOf('\r', i + 1)) {
+      returns.push(start + i - returns.length)
+    }
+    const starts: number[] = []
+    for (let i = text.indexOf('\n'); i > -1; i = text.indexOf('\n', i + 1)) {
+      starts.push(start + i + 1)
+    }
+    const from = { offset: start, ...this.locate(start) }
+    const newEnd = start + text.length
+    const index = new TextIndex(this.text.slice(0, start) + text + this.text.slice(oldEnd), 0, 1)
+    // the original offset of the new end is found once the index is made
+    index.made = {
+      start: { ...from, originalOffset: this.originalOffset(start) },
+      oldEnd: { offset: oldEnd, originalOffset: this.originalOffset(oldEnd), ...this.locate(oldEnd) },
+      newEnd: { offset: newEnd, originalOffset: 0, line: from.line + starts.length, column: starts.length > 0 ? newEnd - starts[starts.length - 1] + 1 : from.column + text.length },
+    }
+    const before = this.returnsThrough(start - 1)
+    const through = this.returnsThrough(oldEnd)
+    // the carriage returns at the start of the edit before it, and those at its old end after it
+    const keptBefore = edit.start - start - before
+    const keptAfter = through - (edit.end - oldEnd)
+    index.base = { index: this, starts, returns, keptBefore, keptAfter, before, through }
+    index.depth = this.depth + 1
+    if (index.depth >= EDIT_DEPTH) {
+      index.returns = index.allReturns()
+      index.base = undefined
+      index.depth = 0
+    }
+    index.made.newEnd.originalOffset = index.originalOffset(newEnd)
+    this.edited = index
+    return index
+  }
+}
+
+// the index of the last of the sorted numbers at or below `value`, or -1 if none is
+function search(sorted: number[], value: number): number {
+  let low = -1
+  let high = sorted.length - 1
+  while (low < high) {
+    const middle = (low + high + 1) >> 1
+    if (sorted[middle] <= value) {
+      low = middle
+    } else {
+      high = middle - 1
+    }
+  }
+  return low
+}
+
+// where a position moves by an edit of its text, or undefined if the text it is in is replaced
+function moved(position: Point, edit: SourceEdit): Point | undefined {
+  const { start, oldEnd, newEnd } = edit
+  if (position.offset <= start.offset) {
+    return position
+  } else if (position.offset < oldEnd.offset) {
+    return undefined
+  }
+  return {
+    offset: position.offset + newEnd.offset - oldEnd.offset,
+    line: position.line + newEnd.line - oldEnd.line,
+    column: position.line === oldEnd.line ? position.column + newEnd.column - oldEnd.column : position.column,
+  }
+}
+
+// A position where a lexer has been, e.g. the start or the end of a token, which follows the edits of the source made afterwards once it is read,
+// so that results reused by `ParseSession.reparse` are located in the source edited. A position in the text replaced by an edit stays where it is
+class TrackedPosition implements Position {
+  private lines: TextIndex
+  private at: Point
+  // whether the position is in no text replaced by the edits followed
+  private kept: boolean
+
+  constructor(lines: TextIndex, offset: number, line: number, column: number) {
+    this.lines = lines
+    this.at = { offset, line, column }
+    this.kept = true
+  }
+
+  get offset(): number {
+    return this.follow().offset
+  }
+
+  get line(): number {
+    return this.follow().line
+  }
+
+  get column(): number {
+    return this.follow().column
+  }
+
+  get originalOffset(): number {
+    const { offset } = this.follow()
+    return this.lines.originalOffset(offset)
+  }
+
+  // whether the position has followed the edits made since, rather than stayed in the text replaced by one
+  follows(): boolean {
+    this.follow()
+    return this.kept
+  }
+
+  private follow(): Point {
+    while (this.lines.edited) {
+      this.lines = this.lines.edited
+      const position = this.kept && moved(this.at, this.lines.made!)
+      if (position) {
+        this.at = position
+      } else {
+        this.kept = false
+      }
+    }
+    return this.at
+  }
+
+  toJSON(): Position {
+    const { offset, line, column } = this.follow()
+    return { offset, originalOffset: this.originalOffset, line, column }
+  }
+
+  [inspect.custom](): Position {
+    return this.toJSON()
+  }
+}
+
+/** Children of a node of a concrete syntax tree being built, the last first. A list is extended rather than modified, so positions can share it. */
+export interface CstList {
+  child: Token | CstNode
+  before?: CstList
+}
+
+// the layout of lines lexed so far. it is replaced rather than modified in place, so positions can share it
+interface Layout {
+  // columns of the indentation of the enclosing blocks, the innermost last
+  indents: number[]
+  // count of brackets open
+  depth: number
+  // line where the last token ends, or 0 before the first token and after the layout at the end of file
+  line: number
+  // position right after the last token, where `newline` is located
+  end: Position
+  // layout tokens resolved at the position, to be consumed before the next token
+  pending: Token[]
+  // count of layout tokens consumed, which tells positions apart by the layout tokens between them
+  resolved: number
+}
+
+// the received part of a streamed source
+class SourceStream {
+  // the kept text, which starts at `offset`, line `line` and column `column` of the source
+  text: string
+  offset: number
+  line: number
+  column: number
+  // the carriage returns cleaned from the kept text, by the indices in the text before which they are, and the count of those released
+  returns: number[]
+  returnsReleased: number
+  ended: boolean
+  private chunks: AsyncIterator<string | Buffer>
+  // decodes characters split across chunks of bytes
+  private decoder: StringDecoder
+
+  constructor(input: AsyncIterable<string | Buffer>) {
+    this.text = ''
+    this.offset = 0
+    this.line = 1
+    this.column = 1
+    this.returns = []
+    this.returnsReleased = 0
+    this.ended = false
+    this.chunks = input[Symbol.asyncIterator]()
+    this.decoder = new StringDecoder('utf8')
+  }
+
+  async receive(): Promise<void> {
+    if (this.ended) {
+      return
+    }
+    const chunk = await this.chunks.next()
+    if (chunk.done) {
+      this.append(this.decoder.end())
+      this.ended = true
+    } else {
+      this.append(typeof chunk.value === 'string' ? chunk.value : this.decoder.write(chunk.value))
+    }
+  }
+
+  private append(text: string) {
+    let count = 0
+    for (let i = text.indexOf('\r'); i > -1; i = text.indexOf('\r', i + 1)) {
+      this.returns.push(this.text.length + i - count++)
+    }
+    this.text += cleanCRLF(text)
+  }
+
+  // drops the text before `offset`, keeping the line and the column where the rest starts
+  release(offset: number) {
+    const at = offset - this.offset
+    const lastBreak = at > 0 ? this.text.lastIndexOf('\n', at - 1) : -1
+    for (let i = 0; i <= lastBreak; i++) {
+      if (this.text[i] === '\n') {
+        this.line++
+      }
+    }
+    this.column = lastBreak < 0 ? this.column + at : at - lastBreak
+    const released = search(this.returns, at - 1) + 1
+    this.returns = this.returns.slice(released).map(x => x - at)
+    this.returnsReleased += released
+    this.text = this.text.slice(at)
+    this.offset = offset
+  }
+}
+
 // JavaScript can safely represent integer between -2^53(-9007199254740992) and 2^53(9007199254740992)
 // But bitwise shift can only happen under -2^31 to 2^31 - 1. Actually, JavaScript << and >> operators
 // cut off the integer to its lower 32 bit and shift with the sign of 32-bit integer (ROL and ROR).
@@ -11,7 +11,9 @@ line = cell >> (char ',' >> cells)
 char :: Parsec String () Char
  */
 
-import { Lexer, Token, ParseFailure, EOF, SourcePosition } from './lex'
+import { Lexer, Token, ParseFailure, ParseFailures, ExpectationFailure, Hint, EOF, InputPending, SourcePosition, Position, RuleSet, Associativity, OperatorPrecedence, TextEdit, SourceEdit, CstList } from './lex'
+import { Tracer } from './trace'
+import { CstNode, CstLeaf, CstElement } from './cst'
 
 /**
  * maximum repeat count of a `many` or `more` parser
@@ -49,39 +51,112 @@ function unlazy<T>(parser: Parser<T> | Lazy<Parser<T>>): Parser<T> {
 
 // Lazy functions are used for arguments, and direct functions are used for chaining.
 
+/**
+ * What a parser accepts, recorded by the combinators for describing the grammar (see `describe`).
+ * A part of a shape is either a parser, whose shape is found in turn, or a shape directly.
+ * A parser without a shape, e.g. one made by `new Parser(...)` directly, is opaque.
+ */
+export type Shape =
+  { kind: 'token', tokenType: string }
+| { kind: 'literal', literal: string }
+| { kind: 'rule', rule: () => Parser<any>, body: ShapePart, name?: string }
+| { kind: 'sequence', items: ShapePart[] }
+| { kind: 'alternation', alternatives: ShapePart[] }
+| { kind: 'repetition', min: 0 | 1, item: ShapePart, separator?: ShapePart }
+| { kind: 'lookahead', negative: boolean, item: ShapePart }
+| { kind: 'empty' }
+| { kind: 'end' }
+| { kind: 'opaque', label: string }
+
+export type ShapePart = Parser<any> | Lazy<Parser<any>> | Shape
+
+// sets the shape of a parser built from other combinators, which do not tell what it accepts as a whole
+function shaped<T>(parser: Parser<T>, shape: Shape): Parser<T> {
+  parser._shape = shape
+  return parser
+}
+
+// gives a parser its asynchronous procedure for `parse`, the twin of the synchronous one it is made with
+function twinned<T>(parser: Parser<T>, procedure: (lexer: Lexer, session: ParseSession | undefined) => Promise<T>): Parser<T> {
+  parser._async = procedure
+  return parser
+}
+
 // The type parameter `ResultType` is only used for indication
 export class Parser<ResultType> {
   // no effect on parsing, only used by the declaration of `this.parse` method
   private value: any
   _tag?: string
-
-  constructor(lazyParse: (lexer: Lexer) => Promise<ResultType>, tag?: string) {
-    this.parse = lazyParse
+  _shape?: Shape
+  // the asynchronous procedure used by `parse`, which is resumed after each asynchronous parser in it is ready.
+  // a parser without one, e.g. made by `new Parser(...)` directly, is parsed synchronously even by `parse`
+  _async?: (lexer: Lexer, session: ParseSession | undefined) => Promise<ResultType>
+
+  constructor(lazyParse: (lexer: Lexer) => ResultType, tag?: string, shape?: Shape) {
+    this.parseSync = (lexer: Lexer) => {
+      const tracer = currentSession && currentSession.tracer
+      const result = tracer && (tracer.parsers === 'all' || ruleParsers.has(this))
+        ? tracer.trace(this._tag || '<untagged>', lexer, () => lazyParse(lexer))
+        : lazyParse(lexer)
+      if (isThenable(result)) {
+        // the promise is never awaited, so its rejection is not to be reported as unhandled
+        result.then(undefined, () => {})
+        throw new Error(`parser ${this._tag || '<untagged>'} results in a promise, which is not awaited: make asynchronous parsers by \`fromAsync\``)
+      }
+      return result
+    }
     this._tag = tag
+    this._shape = shape
   }
 
   // sequences
   /** monadic `>>` operator */
   then<NextType>(next: Parser<NextType> | Lazy<Parser<NextType>>): Parser<NextType> {
-    const thenParser = new Parser(async (lexer: Lexer) => {
+    const thenParser = new Parser((lexer: Lexer) => {
       if (next instanceof Lazy) { next = next.eval() }
       const _next = next as Parser<NextType>
-      await this.parse(lexer)
+      this.parseSync(lexer)
+      thenParser.tag(`(${this._tag} >> ${_next._tag})`)
+      return _next.parseSync(lexer)
+    }, `(${this._tag} >> ???)`, { kind: 'sequence', items: [this, next] })
+    return twinned(thenParser, async (lexer, session) => {
+      const _next = unlazy(next)
+      await parseAsync(this, lexer, session)
       thenParser.tag(`(${this._tag} >> ${_next._tag})`)
-      return _next.parse(lexer)
-    }, `(${this._tag} >> ???)`)
-    return thenParser
+      return parseAsync(_next, lexer, session)
+    })
   }
 
   /** monadic `>>=` operator (callback version) */
   bind<NextType>(next: (result: ResultType) => Parser<NextType>): Parser<NextType> {
-    const bindParser = new Parser(async (lexer: Lexer) => {
-      const result = await this.parse(lexer)
+    const bindParser = new Parser((lexer: Lexer) => {
+      const result = this.parseSync(lexer)
+      const nextParser = next(result)
+      bindParser.tag(`(${this._tag} >>= ${nextParser._tag})`)
+      return nextParser.parseSync(lexer)
+    }, `(${this._tag} >>= ???)`, { kind: 'sequence', items: [this, { kind: 'opaque', label: 'continuation' }] })
+    return twinned(bindParser, async (lexer, session) => {
+      const result = await parseAsync(this, lexer, session)
       const nextParser = next(result)
       bindParser.tag(`(${this._tag} >>= ${nextParser._tag})`)
-      return nextParser.parse(lexer)
-    }, `(${this._tag} >>= ???)`)
-    return bindParser
+      return parseAsync(nextParser, lexer, session)
+    })
+  }
+
+  /**
+   * Parsec `<*` operator: parses `next` after `this` parser, and results in the result of `this`, e.g. `token('(').then(expr).skip(token(')'))`.
+   * Unlike ending a `bind` continuation with `end`, the sequence is known without parsing, so it is described as a whole (see `describe`).
+   */
+  skip<NextType>(next: Parser<NextType> | Lazy<Parser<NextType>>): Parser<ResultType> {
+    return twinned(new Parser((lexer: Lexer) => {
+      const result = this.parseSync(lexer)
+      unlazy(next).parseSync(lexer)
+      return result
+    }, `skip(${this._tag})`, { kind: 'sequence', items: [this, next] }), async (lexer, session) => {
+      const result = await parseAsync(this, lexer, session)
+      await parseAsync(next, lexer, session)
+      return result
+    })
   }
 
   // combinators
@@ -90,12 +165,14 @@ export class Parser<ResultType> {
    * If `this` is not followed with `following`, the generated parser succeeds. On any other condition (including `this` parser's failure), the generated parser fails.
    */
   notFollowedBy<FollowType>(following: Parser<FollowType> | Lazy<Parser<FollowType>>): Parser<ResultType> {
-    return new Parser(async (lexer: Lexer) => {
+    const notFollowedFailure = (lexer: Lexer, _following: Parser<FollowType>) =>
+      new ParseFailure((this._tag ? '`' + this._tag + '`' : '') + 'expected to not followed by ' + (_following._tag ? '`' + _following._tag + '`' : 'the pattern'), lexer.sp.name, lexer.sp.line, lexer.sp.column)
+    return twinned(new Parser((lexer: Lexer) => {
       const _following = unlazy(following)
-      const result = await this.parse(lexer)
+      const result = this.parseSync(lexer)
       try {
-        await test(_following).parse(lexer)
-        throw { notFollow: new ParseFailure((this._tag ? '`' + this._tag + '`' : '') + 'expected to not followed by ' + (_following._tag ? '`' + _following._tag + '`' : 'the pattern'), lexer.sp.name, lexer.sp.line, lexer.sp.column) }
+        test(_following).parseSync(lexer)
+        throw { notFollow: notFollowedFailure(lexer, _following) }
       } catch (e) {
         if (e instanceof ParseFailure) {
           return result
@@ -105,28 +182,51 @@ export class Parser<ResultType> {
           throw e
         }
       }
-    }, `notFollowedBy`)
+    }, `notFollowedBy`, { kind: 'sequence', items: [this, { kind: 'lookahead', negative: true, item: following }] }), async (lexer, session) => {
+      const _following = unlazy(following)
+      const result = await parseAsync(this, lexer, session)
+      try {
+        await parseAsync(test(_following), lexer, session)
+      } catch (e) {
+        if (e instanceof ParseFailure) {
+          return result
+        }
+        throw e
+      }
+      throw notFollowedFailure(lexer, _following)
+    })
   }
 
   /** Parses the end of file. */
   eof(): Parser<ResultType> {
-    return this.notFollowedBy(anyToken()).expect('end of file')
+    return shaped(this.bind(result => endOfFile().end(result)), { kind: 'sequence', items: [this, { kind: 'end' }] })
   }
 
   /** Returns a new parser that generate the translated result of `this` parser. */
   translate<ToType>(translation: (result: ResultType) => ToType): Parser<ToType> {
-    return new Parser(async (lexer: Lexer) => {
-      const result = await this.parse(lexer)
+    return twinned(new Parser((lexer: Lexer) => {
+      const result = this.parseSync(lexer)
+      return translation(result)
+    }, `translate(${this._tag})`, { kind: 'sequence', items: [this] }), async (lexer, session) => {
+      const result = await parseAsync(this, lexer, session)
       return translation(result)
-    }, `translate(${this._tag})`)
+    })
+  }
+
+  /** Returns a new parser that locates the result of `this` parser in the source. See `withSpan`. */
+  located(): Parser<Located<ResultType>> {
+    return withSpan(this)
   }
 
   /** Ends the rule with a given result when parse succeeds. */
   end<T>(value: T): Parser<T> {
-    return new Parser(async (lexer: Lexer) => {
-      await this.parse(lexer)
+    return twinned(new Parser((lexer: Lexer) => {
+      this.parseSync(lexer)
       return value
-    }, `end(${this._tag})`)
+    }, `end(${this._tag})`, { kind: 'sequence', items: [this] }), async (lexer, session) => {
+      await parseAsync(this, lexer, session)
+      return value
+    })
   }
 
 
@@ -142,123 +242,1187 @@ export class Parser<ResultType> {
   }
 
   /**
-   * Parsec `<?>` operator. If `this` parser failed without consuming any input, it replace the expect error message with the given `message`.
-   * e.g. `parser.expect('end of file')` will output `expected end of file` on error.
+   * Parsec `<?>` operator. If `this` parser failed without consuming any input, it replaces the expected items of the failure with the given `message`.
+   * e.g. `parser.expect('statement')` will output `unexpected '}', expected statement` on error, and the label is merged with those of the other alternatives.
    */
   expect(message: string): Parser<ResultType> {
-    return new Parser(async (lexer: Lexer) => {
+    return twinned(new Parser((lexer: Lexer) => {
+      const earlySp = lexer.sp.clone()
+      const earlyHint = lexer.hint
       try {
-        return await this.parse(lexer)
+        const result = this.parseSync(lexer)
+        relabelHint(lexer, message, earlySp, earlyHint)
+        return result
       } catch (e) {
-        if (e instanceof ParseFailure) {
-          e.msg = `expected ${message}`
-          throw e
-        } else {
-          throw e
-        }
+        throw relabeled(e, message, lexer, earlySp, earlyHint)
+      }
+    }, `(${this._tag} <?> "${message}")`, { kind: 'sequence', items: [this] }), async (lexer, session) => {
+      const earlySp = lexer.sp.clone()
+      const earlyHint = lexer.hint
+      try {
+        const result = await parseAsync(this, lexer, session)
+        relabelHint(lexer, message, earlySp, earlyHint)
+        return result
+      } catch (e) {
+        throw relabeled(e, message, lexer, earlySp, earlyHint)
       }
-    }, `(${this._tag} <?> "${message}")`)
+    })
   }
 
 
   // lazy parse procedure, which is replaced in the constructor
   // I write it as a method instead of a field because this is cool.
   /**
-   * Starts parsing with a lexer.
-   * Very possibly throwing `EOF | ParseFailure` exceptions, which must be catched in the caller of `parse` method to compose proper error messages.
-   * */
-  async parse(lexer: Lexer): Promise<ResultType> {
+   * Starts parsing with a lexer synchronously. This is what every combinator calls.
+   * Very possibly throwing `EOF | ParseFailure` exceptions, which must be catched in the caller of `parseSync` method to compose proper error messages.
+   */
+  parseSync(lexer: Lexer): ResultType {
     return this.value
   }
 
+  /**
+   * Starts parsing with a lexer, for grammars containing asynchronous parsers made by `fromAsync`.
+   * Whenever an asynchronous parser is met, parsing is suspended until its result is ready, and then resumed from there.
+   * Parsers made by `new Parser(...)` directly are parsed synchronously, so one containing an asynchronous parser is parsed again from its start once the result is ready,
+   * where the ready result is taken directly, and side effects of its semantic actions may happen more than once.
+   * A lexer of a stream made by `Lexer.fromStream` is parsed by `parseEach` instead, which releases the text parsed.
+   */
+  async parse(lexer: Lexer): Promise<ResultType> {
+    if (lexer.sp.stream) {
+      throw new Error('a lexer of a stream is parsed by `parseEach`, which releases the text parsed, rather than `parse`, which would keep the whole source')
+    }
+    return parseAsync(this, lexer, currentSession)
+  }
+
+  /**
+   * Parses with `this` parser again and again until the end of file, and calls `onResult` with each result, e.g. for each record of a log.
+   * For a lexer of a stream made by `Lexer.fromStream`, each result is parsed once enough of the source is received,
+   * and the source before it is released, so only about one result of the source is kept in memory at a time.
+   */
+  async parseEach(lexer: Lexer, onResult: (result: ResultType) => void): Promise<void> {
+    while (true) {
+      const start = lexer.clone()
+      let result: ResultType
+      try {
+        if (atEnd(lexer)) {
+          return
+        }
+        result = this.parseSync(lexer)
+      } catch (e) {
+        if (!(e instanceof InputPending)) {
+          throw e
+        }
+        lexer.assign(start)
+        await lexer.pull()
+        continue
+      }
+      if (lexer.sp.compareTo(start.sp) === 'equal') {
+        throw new Error(`parser ${this._tag} consumes nothing, so it cannot be parsed each until the end of file`)
+      }
+      lexer.release()
+      onResult(result)
+    }
+  }
+
   show(lexer: Lexer) {
-    this.parse(lexer)
-      .then(x => {
-        console.log(x)
+    let x
+    try {
+      x = this.parseSync(lexer)
+    } catch (e) {
+      if (e instanceof ParseFailure) {
+        console.error(e.frame(lexer.sp.source, { color: process.stderr.isTTY, firstLine: lexer.sp.sourceLine, firstColumn: lexer.sp.sourceColumn }))
+        return
+      } else {
+        throw e
+      }
+    }
+    console.log(x)
+    if (lexer.diagnostics.length > 0) {
+      console.error(new ParseFailures().combine(...lexer.diagnostics).frame(lexer.sp.source, { color: process.stderr.isTTY, firstLine: lexer.sp.sourceLine, firstColumn: lexer.sp.sourceColumn }))
+    }
+    try {
+      const tk = lexer.next() // expected to throw EOF
+      console.warn('warning: not consuming all input')
+    } catch (e) {
+      if (!(e instanceof EOF)) {
+        console.warn('warning: not consuming all input')
+      }
+    }
+  }
+}
+
+// the failure of `expect`, whose expected items are replaced with `message` if nothing is consumed.
+// the hint left before `expect` is merged again, but not those left inside, which are relabeled too
+function relabeled(e: any, message: string, lexer: Lexer, earlySp: SourcePosition, earlyHint: Hint | undefined): any {
+  if (e instanceof ExpectationFailure && lexer.sp.compareTo(earlySp) === 'equal') {
+    return hinted(lexer, new ExpectationFailure(e.unexpected, [message], e.sourceName, e.line, e.column), earlyHint)
+  } else if (e instanceof ParseFailure && lexer.sp.compareTo(earlySp) === 'equal') {
+    const known = !(e instanceof ParseFailures) && e.line > 0
+    return hinted(lexer, new ExpectationFailure(undefined, [message], lexer.sp.name, known ? e.line : lexer.sp.line, known ? e.column : lexer.sp.column), earlyHint)
+  } else {
+    return e
+  }
+}
+
+// relabels the hints left by the parser of `expect` if it succeeded without consuming input
+function relabelHint(lexer: Lexer, message: string, earlySp: SourcePosition, earlyHint: Hint | undefined) {
+  const hint = lexer.hint
+  if (hint === earlyHint || !currentHint(lexer) || lexer.sp.compareTo(earlySp) !== 'equal') {
+    return
+  }
+  const failure = hint!.failure
+  lexer.hint = currentHint(lexer, earlyHint)
+  addHint(lexer, new ExpectationFailure(failure.unexpected, [message], failure.sourceName, failure.line, failure.column), earlySp)
+}
+
+// the hints at the position of the lexer, if any
+function currentHint(lexer: Lexer, hint = lexer.hint): Hint | undefined {
+  return hint && hint.offset === lexer.sp.offset && hint.resolved === lexer.sp.resolvedLayout ? hint : undefined
+}
+
+// leaves the failure of a parser started at `at` as a hint if the lexer is still there, i.e. the parser is passed over without consuming input.
+// hints are only merged when a failure is thrown there, as most of them are passed over by the parsers after them
+function addHint(lexer: Lexer, failure: any, at: SourcePosition) {
+  if (failure instanceof ExpectationFailure && lexer.sp.compareTo(at) === 'equal') {
+    lexer.hint = { failure, offset: at.offset, resolved: at.resolvedLayout, earlier: currentHint(lexer) }
+  }
+}
+
+// a failure found at the position of the lexer, merged after the hints there if they are found at the same place
+function hinted(lexer: Lexer, failure: ExpectationFailure, hint = lexer.hint): ExpectationFailure {
+  const current = currentHint(lexer, hint)
+  if (!current) {
+    return failure
+  }
+  const early = mergedHint(current)
+  return failure.line > 0 && early.sourceName === failure.sourceName && early.line === failure.line && early.column === failure.column
+    ? early.merge(failure) as ExpectationFailure
+    : failure
+}
+
+// the failures of a chain of hints merged from the earliest, kept on the chain for the other failures there
+function mergedHint(hint: Hint): ExpectationFailure {
+  if (!hint.merged) {
+    const merged = hint.earlier ? mergedHint(hint.earlier).merge(hint.failure) : hint.failure
+    hint.merged = merged instanceof ExpectationFailure ? merged : hint.failure
+  }
+  return hint.merged
+}
+
+// the hints at a position moved by edits from `from` to `to`, whose failures are found at it or after it, so they move with it
+function movedHint(hint: Hint | undefined, from: SourcePosition, to: SourcePosition): Hint | undefined {
+  if (!hint || hint.offset !== from.offset || hint.resolved !== from.resolvedLayout) {
+    return undefined
+  }
+  const { unexpected, expected, sourceName, line, column, end } = hint.failure
+  const failure = line > 0 ? new ExpectationFailure(unexpected, expected, sourceName, line + to.line - from.line, line === from.line ? column + to.column - from.column : column, end) : hint.failure
+  return { failure, offset: to.offset, resolved: hint.resolved, earlier: movedHint(hint.earlier, from, to) }
+}
+
+function isThenable(x: any): x is PromiseLike<any> {
+  return x !== null && typeof x === 'object' && typeof x.then === 'function'
+}
+
+function atEnd(lexer: Lexer): boolean {
+  try {
+    lexer.clone().next()
+    return false
+  } catch (e) {
+    if (e instanceof EOF) {
+      return true
+    } else if (e instanceof ParseFailure) {
+      return false
+    }
+    throw e
+  }
+}
+
+type AsyncResult = { ready: false } | { ready: true, result: any, lexer: Lexer } | { ready: true, failure: any }
+
+// results of the asynchronous parsers met in the synchronous parser being parsed by `parseAsync`, keyed by the parser and the source offset
+let asyncResults: Map<Parser<any>, Map<number, AsyncResult>> | undefined
+
+// thrown by an asynchronous parser to suspend the synchronous parser it is met in
+class Suspension {
+  ready: Promise<void>
+
+  constructor(ready: Promise<void>) {
+    this.ready = ready
+  }
+}
+
+/**
+ * Parses by a parser asynchronously for `Parser.parse`, in `session` if any.
+ * A parser with an asynchronous procedure is resumed after each asynchronous parser in it is ready.
+ * A parser without one is parsed synchronously. If an asynchronous parser is met in it, e.g. in a parser made by `new Parser(...)` directly,
+ * it is suspended until the result is ready, and then parsed again from its start, where the ready result is taken directly.
+ */
+async function parseAsync<T>(parser: Parser<T> | Lazy<Parser<T>>, lexer: Lexer, session: ParseSession | undefined): Promise<T> {
+  const _parser = unlazy(parser)
+  const procedure = _parser._async
+  if (procedure) {
+    const tracer = session && session.tracer
+    if (tracer && (tracer.parsers === 'all' || ruleParsers.has(_parser))) {
+      return tracer.traceAsync(_parser._tag || '<untagged>', lexer, () => procedure(lexer, session))
+    }
+    return procedure(lexer, session)
+  }
+  const results = new Map<Parser<any>, Map<number, AsyncResult>>()
+  while (true) {
+    // the parser is parsed on a clone, so that it can be parsed again from its start
+    const tryLexer = lexer.clone()
+    const outerSession = currentSession
+    const outerResults = asyncResults
+    currentSession = session
+    asyncResults = results
+    let suspension: Suspension
+    try {
+      const result = _parser.parseSync(tryLexer)
+      lexer.assign(tryLexer)
+      return result
+    } catch (e) {
+      if (!(e instanceof Suspension)) {
+        lexer.assign(tryLexer)
+        throw e
+      }
+      suspension = e
+    } finally {
+      currentSession = outerSession
+      asyncResults = outerResults
+    }
+    await suspension.ready
+  }
+}
+
+/**
+ * Makes a parser from an asynchronous procedure, e.g. one reading an included file.
+ * A grammar containing it must be started by `Parser.parse` (or `ParseSession.runAsync`) instead of `Parser.parseSync`,
+ * which resumes parsing once the result is ready.
+ */
+export function fromAsync<T>(parse: (lexer: Lexer) => Promise<T>, tag?: string): Parser<T> {
+  const parser: Parser<T> = new Parser((lexer: Lexer) => {
+    if (!asyncResults) {
+      throw new Error(`parser ${parser._tag} is asynchronous, start parsing with \`parse\` instead of \`parseSync\``)
+    }
+    const results = asyncResults.get(parser) || new Map<number, AsyncResult>()
+    asyncResults.set(parser, results)
+    const offset = lexer.sp.offset
+    const r = results.get(offset)
+    if (r === undefined) {
+      const asyncLexer = lexer.clone()
+      results.set(offset, { ready: false })
+      throw new Suspension(parse(asyncLexer).then(
+        result => { results.set(offset, { ready: true, result, lexer: asyncLexer }) },
+        failure => { results.set(offset, { ready: true, failure }) }
+      ))
+    } else if (!r.ready) {
+      throw new Error(`parser ${parser._tag} is entered again before its result is ready`)
+    } else if ('failure' in r) {
+      throw r.failure
+    } else {
+      lexer.assign(r.lexer)
+      return r.result
+    }
+  }, tag || 'fromAsync', { kind: 'opaque', label: tag || 'asynchronous parser' })
+  return twinned(parser, async lexer => {
+    const asyncLexer = lexer.clone()
+    const result = await parse(asyncLexer)
+    lexer.assign(asyncLexer)
+    return result
+  })
+}
+
+// `lexer` is the state after parsing, and the source is examined up to `reach` (exclusive) for the result.
+// `start` is the lexer where the application starts, whose user state it is parsed in, and whose count of layout tokens consumed tells apart the applications at the same offset
+// `node` is the node of the concrete syntax tree made by the application, if the tree is built and the application succeeds or consumes some input
+type MemoEntry = { result: any, lexer: Lexer, reach: number, start: Lexer, node?: CstNode } | { failure: ParseFailure, lexer: Lexer, reach: number, start: Lexer, node?: CstNode }
+
+// an application of a `syntax` rule in progress
+interface RuleFrame {
+  rule: () => Parser<any>
+  offset: number
+  // the rule is applied again at the same offset before this application ends
+  leftRecursive: boolean
+  // the result depends on the seed of a left-recursive rule in progress, so it must not be memoized
+  involved: boolean
+  // names of the rules from this rule to where it is applied again
+  cycle?: string[]
+  // the lexer where the application starts, to restart from while growing a left-recursive result
+  start: Lexer
+  // the failure of the recursive application before a seed is grown
+  recursion: ParseFailure
+  // how far the enclosing parsers have examined the source
+  outerReach: number
+  // parses the body of the rule
+  parse: (lexer: Lexer) => any
+}
+
+// thrown up to `ParseSession.run` when the native stack overflows, to `bounce` the application of `frame`
+class Bounce {
+  frame: RuleFrame
+
+  constructor(frame: RuleFrame) {
+    this.frame = frame
+  }
+}
+
+// count of edits whose memo tables an incremental session looks up through before merging them (see `ParseSession.reparse`)
+const MERGED_EDITS = 16
+
+function ruleName(rule: () => Parser<any>): string {
+  return rule.name || '<anonymous>'
+}
+
+/**
+ * The state shared by all parsers in one parse.
+ *
+ * With `memoize` on, a packrat parser is made: the result (or the failure) of every `syntax` rule is memoized by the source offset,
+ * so backtracking over a rule never parses it at the same position again.
+ *
+ * Left-recursive rules (e.g. `expr ::= expr '-' term | term`) are resolved by growing a seed (A. Warth et al., 2008):
+ * the rule is first parsed with its recursive application at the same position failing, and the result becomes the seed.
+ * Then the rule is parsed again and again with the recursive application resulting in the last seed, until it stops consuming more input.
+ *
+ * With a `tracer` given, the execution of the parsers is recorded as a trace tree (see `Tracer`).
+ *
+ * With a `state` given, each run starts with it as the user state (see `getState`), and `state` is the user state where the last run ends.
+ * The session is typed by the state `S`, and so are the state combinators it makes, e.g. `session.modifyState(n => n + 1)`.
+ * A memoized result is only reused in the same user state as it is parsed in.
+ *
+ * With `incremental` on, the session memoizes and keeps the memo tables between runs, so that `reparse` can parse the source changed by an edit
+ * reusing the results of the rules that examine none of the text edited, before or after it, in time about in proportion to the edit rather than the source.
+ * The results are shared with the last tree, and the positions recorded in them (e.g. of tokens) follow the edit once read (see `Token.start`).
+ * A result after the edit is only reused if it does not depend on the text before it: the rule succeeds, reports no diagnostics,
+ * and starts in the same lexer context (see `Lexer.resumes`) out of layouts.
+ * What a rule examines is known by the lexer, which looks a few characters past each token; custom token patterns looking further are not accounted.
+ *
+ * With `cst` on, a concrete syntax tree is built in each run, which is then `cst`: a node for each `syntax` rule applied, holding the nodes of the rules
+ * and the tokens it parses, under a root holding what the parser parses (see `CstNode`). The lexer is made to keep trivia (see `LexerOptions`),
+ * so the tree prints the source back from where the run starts, which should be the start of the source.
+ * A rule failing after consuming input still makes a node of what it has consumed, so the tree covers the input skipped by `recover`.
+ */
+export class ParseSession<S = any> {
+  memoize: boolean
+  stats: { hits: number, misses: number }
+  // failures recovered from by `recover` in the last run
+  diagnostics: ParseFailure[]
+  // records the execution of parsers if given
+  tracer?: Tracer
+  incremental: boolean
+  // the user state where the last run ends
+  state: S
+  buildCst: boolean
+  // the concrete syntax tree of the last run, if `cst` is on
+  cst?: CstNode
+  // rule -> source offset -> memoized result
+  private memo: Map<() => Parser<any>, Map<number, MemoEntry>>
+  // rule -> source offset -> seed of the application in progress
+  private seeds: Map<() => Parser<any>, Map<number, MemoEntry>>
+  private frames: RuleFrame[]
+  // rule -> source offset -> result of an application parsed apart by `bounce`, replayed whatever the user state is
+  private bounces: Map<() => Parser<any>, Map<number, MemoEntry>>
+  // the application being parsed apart by `bounce`, if any
+  private bouncing?: RuleFrame
+  // rule names and offsets of the applications bounced, which are not bounced again even if they are other functions of the same name
+  private bounced: Set<string>
+  // `run` is parsing, which can be restarted after `bounce`
+  private driving: boolean
+  // the lexer at the start of the last run, which `reparse` edits
+  private origin?: Lexer
+  // the memo tables of the sources before the edits of `reparse`, the latest first, each with the edit made of its source
+  private earlier: { memo: Map<() => Parser<any>, Map<number, MemoEntry>>, edit: SourceEdit }[]
+  // the user state each run starts with, if given
+  private startState?: { value: S }
+
+  constructor(options: { memoize?: boolean, tracer?: Tracer, incremental?: boolean, state?: S, cst?: boolean } = {}) {
+    this.incremental = options.incremental || false
+    this.buildCst = options.cst || false
+    this.startState = 'state' in options ? { value: options.state as S } : undefined
+    this.state = options.state as S
+    this.memoize = options.memoize || this.incremental
+    this.tracer = options.tracer
+    this.stats = { hits: 0, misses: 0 }
+    this.diagnostics = []
+    this.memo = new Map()
+    this.earlier = []
+    this.seeds = new Map()
+    this.frames = []
+    this.bounces = new Map()
+    this.bounced = new Set()
+    this.driving = false
+  }
+
+  /** `getState` of the state of this session. */
+  getState(): Parser<S> {
+    return getState<S>()
+  }
+
+  /** `setState` of the state of this session. */
+  setState(state: S): Parser<S> {
+    return setState(state)
+  }
+
+  /** `modifyState` of the state of this session. */
+  modifyState(modify: (state: S) => S): Parser<S> {
+    return modifyState(modify)
+  }
+
+  /** Ratio of memoized rule applications to all rule applications, or 0 if no rule is applied. */
+  get hitRate(): number {
+    const total = this.stats.hits + this.stats.misses
+    return total ? this.stats.hits / total : 0
+  }
+
+  /**
+   * Parses in this session. The memo table is only valid for `lexer`, so it is discarded afterwards unless the session is incremental.
+   * Rules applied too deeply for the native stack are parsed apart (see `bounce`), and then parsing restarts from the beginning,
+   * so semantic actions of the rules enclosing them may run more than once.
+   */
+  run<T>(parser: Parser<T>, lexer: Lexer): T {
+    const outerSession = currentSession
+    const outerDriving = this.driving
+    currentSession = this
+    this.driving = true
+    this.begin(lexer)
+    const initial = lexer.clone()
+    const traced = this.tracer && this.tracer.mark()
+    try {
+      while (true) {
         try {
-          const tk = lexer.next() // expected to throw EOF
-          console.warn('warning: not consuming all input')
+          return parser.parseSync(lexer)
         } catch (e) {
-          if (!(e instanceof EOF)) {
-            console.warn('warning: not consuming all input')
+          if (!(e instanceof Bounce)) {
+            throw e
+          }
+          this.bounce(e.frame)
+          lexer.assign(initial)
+          if (this.tracer) {
+            this.tracer.rewind(traced!)
           }
         }
-      })
-      .catch(e => {
+      }
+    } finally {
+      currentSession = outerSession
+      this.driving = outerDriving
+      this.bounces = new Map()
+      this.bounced = new Set()
+      this.end(lexer)
+    }
+  }
+
+  // Parses the application of a rule overflowing the native stack apart, at the top of the stack, where it has about half of the stack.
+  // Its result is kept until the end of the run, and replayed when parsing restarts.
+  private bounce(frame: RuleFrame) {
+    this.bounced.add(`${ruleName(frame.rule)}@${frame.offset}`)
+    while (true) {
+      this.bouncing = frame
+      try {
+        this.apply(frame.rule, frame.start.clone(), frame.parse)
+        return
+      } catch (e) {
         if (e instanceof ParseFailure) {
-          console.error(e.toString())
-        } else {
+          // the failure is kept as well
+          return
+        } else if (!(e instanceof Bounce)) {
           throw e
         }
-      })
+        this.bounce(e.frame)
+      } finally {
+        this.bouncing = undefined
+      }
+    }
+  }
+
+  /** Parses in this session like `run`, but asynchronously like `Parser.parse`, for grammars containing asynchronous parsers. */
+  async runAsync<T>(parser: Parser<T>, lexer: Lexer): Promise<T> {
+    this.begin(lexer)
+    try {
+      return await parseAsync(parser, lexer, this)
+    } finally {
+      this.end(lexer)
+    }
+  }
+
+  private begin(lexer: Lexer) {
+    if (this.startState) {
+      lexer.state = this.startState.value
+    }
+    if (this.buildCst) {
+      lexer.trivia = true
+      lexer.cst = true
+      lexer.sp.cstChildren = undefined
+    }
+    if (this.incremental) {
+      this.origin = lexer.clone()
+    }
   }
+
+  private end(lexer: Lexer) {
+    this.diagnostics = lexer.diagnostics
+    this.state = lexer.state
+    if (this.buildCst) {
+      this.cst = new CstNode(undefined, cstElements(lexer.sp.cstChildren))
+      this.cst.trivia = lexer.atEnd.trivia
+      this.cst.link()
+    }
+    if (!this.incremental) {
+      this.memo = new Map()
+    }
+  }
+
+  /**
+   * Parses the source of the last run changed by `edit` in this incremental session, reusing what is memoized before and after the edit (see `Lexer.edit`).
+   * `parser` should be the one of the last run, or else few results are reused.
+   */
+  reparse<T>(parser: Parser<T>, edit: TextEdit): T {
+    if (!this.incremental || !this.origin) {
+      throw new Error('reparsing requires an incremental session that has run')
+    }
+    const lexer = this.origin.edit(edit)
+    this.earlier.unshift({ memo: this.memo, edit: lexer.sp.sourceEdit! })
+    this.memo = new Map()
+    if (this.earlier.length >= MERGED_EDITS) {
+      this.mergeEarlier()
+    }
+    return this.run(parser, lexer)
+  }
+
+  // Moves the entries of the memo tables of earlier sources into the current one, unless they examine the text edited since,
+  // so that looking up an entry through the edits takes constant time. Their lexers are moved once they are recalled
+  private mergeEarlier() {
+    const edits = this.earlier.map(x => x.edit)
+    this.earlier.forEach(({ memo }, i) => memo.forEach((entries, rule) => entries.forEach((entry, offset) => {
+      const span = moveSpan(offset, entry.reach, edits, i)
+      if (span && !lookup(this.memo, rule, span.offset)) {
+        store(this.memo, rule, span.offset, { ...entry, reach: span.reach })
+      }
+    })))
+    this.earlier = []
+  }
+
+  /**
+   * Parses in this session like `run`, but a `ParseFailure` is not thrown.
+   * `result` is the (partial) tree if the parse succeeds, and `failure` combines all the failures recovered from with the one aborting the parse, or is undefined if there is none.
+   */
+  runRecovering<T>(parser: Parser<T>, lexer: Lexer): { result: T | undefined, failure: ParseFailure | undefined } {
+    let result: T | undefined
+    let aborting: ParseFailure[] = []
+    try {
+      result = this.run(parser, lexer)
+    } catch (e) {
+      if (e instanceof ParseFailure) {
+        aborting = [e]
+      } else {
+        throw e
+      }
+    }
+    const failures = this.diagnostics.concat(aborting)
+    return { result, failure: failures.length > 0 ? new ParseFailures().combine(...failures) : undefined }
+  }
+
+  /** Applies a `syntax` rule, whose body is parsed by `parse`. */
+  apply<T>(rule: () => Parser<T>, lexer: Lexer, parse: (lexer: Lexer) => T): T {
+    // the children of the enclosing node, which the node of this application is added to
+    const outerCst = lexer.sp.cstChildren
+    const recalled = this.recall(rule, lexer)
+    if (recalled) {
+      return replay(recalled, lexer, outerCst)
+    }
+    const frame = this.open(rule, lexer, parse)
+    try {
+      let entry = attemptEntry(parse, lexer, rule, frame.start)
+      if (frame.leftRecursive) {
+        while ('result' in entry) {
+          this.reseed(frame, entry, lexer)
+          const grown = attemptEntry(parse, lexer, rule, frame.start)
+          if (!grows(grown, entry)) {
+            break
+          }
+          entry = grown
+        }
+      }
+      return replay(this.settle(frame, entry), lexer, outerCst)
+    } catch (e) {
+      throw this.overflow(e)
+    } finally {
+      this.close(frame, lexer)
+    }
+  }
+
+  /** Applies a `syntax` rule like `apply`, whose body is parsed asynchronously by `parse`. */
+  async applyAsync<T>(rule: () => Parser<T>, lexer: Lexer, parse: (lexer: Lexer) => Promise<T>): Promise<T> {
+    const outerCst = lexer.sp.cstChildren
+    const recalled = this.recall(rule, lexer)
+    if (recalled) {
+      return replay(recalled, lexer, outerCst)
+    }
+    const frame = this.open(rule, lexer, parse)
+    try {
+      let entry = await attemptEntryAsync(parse, lexer, rule, frame.start)
+      if (frame.leftRecursive) {
+        while ('result' in entry) {
+          this.reseed(frame, entry, lexer)
+          const grown = await attemptEntryAsync(parse, lexer, rule, frame.start)
+          if (!grows(grown, entry)) {
+            break
+          }
+          entry = grown
+        }
+      }
+      return replay(this.settle(frame, entry), lexer, outerCst)
+    } catch (e) {
+      throw this.overflow(e)
+    } finally {
+      this.close(frame, lexer)
+    }
+  }
+
+  // the memoized entry or the seed of a left-recursive application in progress to replay instead of applying the rule, if any
+  private recall(rule: () => Parser<any>, lexer: Lexer): MemoEntry | undefined {
+    const offset = lexer.sp.offset
+    const bounced = this.bounces.size ? lookup(this.bounces, rule, offset) : undefined
+    if (bounced && bounced.start.sp.resolvedLayout === lexer.sp.resolvedLayout) {
+      lexer.examine(bounced.reach)
+      return bounced
+    }
+    const memoized = this.memoize ? this.memoized(rule, lexer) : undefined
+    if (memoized) {
+      this.stats.hits++
+      lexer.examine(memoized.reach)
+      return memoized
+    }
+    const seed = lookup(this.seeds, rule, offset)
+    if (seed && seed.start.sp.resolvedLayout === lexer.sp.resolvedLayout) {
+      this.markLeftRecursion(rule, offset)
+      return seed
+    }
+    if (this.memoize) {
+      this.stats.misses++
+    }
+    return undefined
+  }
+
+  // the memoized entry of an application in the user state and the layout of the lexer, which may be kept from an earlier source (see `reparse`)
+  private memoized(rule: () => Parser<any>, lexer: Lexer): MemoEntry | undefined {
+    const offset = lexer.sp.offset
+    const entry = lookup(this.memo, rule, offset) || (this.earlier.length > 0 ? this.recallEarlier(rule, offset) : undefined)
+    if (!entry || entry.start.state !== lexer.state || entry.start.sp.resolvedLayout !== lexer.sp.resolvedLayout) {
+      return undefined
+    }
+    if (!entry.lexer.sp.outdated) {
+      return lexer.resumes(entry.start) ? entry : undefined
+    }
+    const moved = this.moveEntry(entry, lexer)
+    if (!moved || !lexer.resumes(entry.start)) {
+      return undefined
+    }
+    store(this.memo, rule, offset, moved)
+    return moved
+  }
+
+  // the entry of an application at `offset` memoized in the memo table of the latest earlier source having one, if the rule examines none of the text edited since
+  private recallEarlier(rule: () => Parser<any>, offset: number): MemoEntry | undefined {
+    const edits = this.earlier.map(x => x.edit)
+    for (let i = 0; i < this.earlier.length; i++) {
+      // the offset in the source before the edit
+      const { start, oldEnd, newEnd } = edits[i]
+      if (offset > newEnd.offset) {
+        offset += oldEnd.offset - newEnd.offset
+      } else if (offset > start.offset) {
+        return undefined
+      }
+      const entry = lookup(this.earlier[i].memo, rule, offset)
+      if (entry) {
+        const span = moveSpan(offset, entry.reach, edits, i)
+        return span && { ...entry, reach: span.reach }
+      }
+    }
+    return undefined
+  }
+
+  // An entry of an earlier source moved to the source of `lexer`, or undefined if the text it is in is replaced.
+  // After an edit, it must not depend on the text edited before it: it must not be a failure, whose position is fixed, nor report diagnostics,
+  // which are added to those before it. The lexer must also be in the same context, which is checked for each replay (see `Lexer.resumes`)
+  private moveEntry(entry: MemoEntry, lexer: Lexer): MemoEntry | undefined {
+    const moved = entry.lexer.rebase(lexer)
+    const start = entry.start.rebase(lexer)
+    if (!moved || !start) {
+      return undefined
+    }
+    if (entry.start.sp.afterEdit(lexer.sp)) {
+      if ('failure' in entry || entry.lexer.diagnostics !== entry.start.diagnostics) {
+        return undefined
+      }
+      // the diagnostics before the entry are those found before it now
+      start.diagnostics = moved.diagnostics = lexer.diagnostics
+      moved.hint = movedHint(entry.lexer.hint, entry.lexer.sp, moved.sp)
+    }
+    return { ...entry, lexer: moved, start }
+  }
+
+  // starts an application of a rule, whose recursive application fails at first
+  private open(rule: () => Parser<any>, lexer: Lexer, parse: (lexer: Lexer) => any): RuleFrame {
+    const offset = lexer.sp.offset
+    lexer.sp.cstChildren = undefined
+    const start = lexer.clone()
+    const recursion = new ParseFailure(`left recursion of ${ruleName(rule)}`, start.sp.name, start.sp.line, start.sp.column)
+    // what the rule examines is recorded apart from what the enclosing parsers do
+    const frame: RuleFrame = { rule, offset, leftRecursive: false, involved: false, start, recursion, outerReach: lexer.reached.offset, parse }
+    lexer.reached.offset = offset
+    this.frames.push(frame)
+    store(this.seeds, rule, offset, { failure: recursion, lexer: start, reach: offset, start })
+    return frame
+  }
+
+  // makes a result of a left-recursive application the seed to grow from, and restarts the application
+  private reseed(frame: RuleFrame, entry: MemoEntry, lexer: Lexer) {
+    store(this.seeds, frame.rule, frame.offset, entry)
+    lexer.assign(frame.start)
+  }
+
+  // the entry an application results in, memoized if it can be
+  private settle(frame: RuleFrame, entry: MemoEntry): MemoEntry {
+    if (frame.leftRecursive && 'failure' in entry && entry.failure === frame.recursion) {
+      throw new Error(`left-recursive cycle ${frame.cycle!.join(' -> ')} has no alternative to start with`)
+    }
+    if (this.memoize && !frame.involved) {
+      store(this.memo, frame.rule, frame.offset, entry)
+    }
+    if (frame.rule === (this.bouncing && this.bouncing.rule) && frame.offset === this.bouncing!.offset) {
+      store(this.bounces, frame.rule, frame.offset, entry)
+    }
+    return entry
+  }
+
+  private overflow(e: any): any {
+    // handling may overflow the stack again, which is then handled by outer applications
+    if (e instanceof RangeError && e.message.indexOf('call stack') > -1) {
+      const target = this.driving ? this.bounceTarget() : undefined
+      return this.unresolvableRecursion() || (target ? new Bounce(target) : e)
+    }
+    return e
+  }
+
+  // An application about halfway down the stack to `bounce`, which must not be the first one, so that some stack is freed.
+  // It starts after the application enclosing it, so it is not in a left-recursive cycle, and it is not bounced before.
+  private bounceTarget(): RuleFrame | undefined {
+    for (let i = this.frames.length >> 1; i >= 1; i--) {
+      const frame = this.frames[i]
+      if (!frame.involved && frame.offset > this.frames[i - 1].offset && !this.bounced.has(`${ruleName(frame.rule)}@${frame.offset}`)) {
+        return frame
+      }
+    }
+    return undefined
+  }
+
+  private close(frame: RuleFrame, lexer: Lexer) {
+    this.frames.pop()
+    this.seeds.get(frame.rule)!.delete(frame.offset)
+    lexer.examine(frame.outerReach)
+  }
+
+  private markLeftRecursion(rule: () => Parser<any>, offset: number) {
+    for (let i = this.frames.length - 1; i >= 0; i--) {
+      const frame = this.frames[i]
+      if (frame.rule === rule && frame.offset === offset) {
+        frame.leftRecursive = true
+        frame.cycle = frame.cycle || this.frames.slice(i).map(f => ruleName(f.rule)).concat(ruleName(rule))
+        for (let j = i + 1; j < this.frames.length; j++) {
+          this.frames[j].involved = true
+        }
+        return
+      }
+    }
+  }
+
+  // Left recursion is only detected when a rule is applied again as the same function.
+  // If a rule function is created on each application (e.g. `syntax(() => ...)` in a rule), the recursion never ends,
+  // which is told from deep recursion by a rule of the same name applied again at the same offset on the top of the stack.
+  private unresolvableRecursion(): Error | undefined {
+    const top = this.frames[this.frames.length - 1]
+    const names: string[] = []
+    for (let i = this.frames.length - 1; i >= 0 && this.frames[i].offset === top.offset; i--) {
+      const name = ruleName(this.frames[i].rule)
+      if (names.indexOf(name) > -1) {
+        return new Error(`unsupported left-recursive cycle ${[name].concat(names.slice(names.indexOf(name)).reverse()).join(' -> ')}: ` +
+          'rules in a left-recursive cycle must be the same functions on every application')
+      }
+      names.push(name)
+    }
+    return undefined
+  }
+}
+
+// the offset and the reach of an entry of the source before `edits[i]` in the source after `edits[0]`, the latest edit, or undefined if it examines the text edited
+function moveSpan(offset: number, reach: number, edits: SourceEdit[], i: number): { offset: number, reach: number } | undefined {
+  for (; i >= 0; i--) {
+    const { start, oldEnd, newEnd } = edits[i]
+    if (offset > oldEnd.offset) {
+      offset += newEnd.offset - oldEnd.offset
+      reach += newEnd.offset - oldEnd.offset
+    } else if (reach > start.offset) {
+      return undefined
+    }
+  }
+  return { offset, reach }
+}
+
+function lookup(table: Map<() => Parser<any>, Map<number, MemoEntry>>, rule: () => Parser<any>, offset: number): MemoEntry | undefined {
+  const entries = table.get(rule)
+  return entries && entries.get(offset)
+}
+
+function store(table: Map<() => Parser<any>, Map<number, MemoEntry>>, rule: () => Parser<any>, offset: number, entry: MemoEntry) {
+  let entries = table.get(rule)
+  if (!entries) {
+    entries = new Map()
+    table.set(rule, entries)
+  }
+  entries.set(offset, entry)
 }
 
+function replay<T>(entry: MemoEntry, lexer: Lexer, outerCst: CstList | undefined): T {
+  const previous = lexer.sp.lastToken
+  lexer.assign(entry.lexer)
+  if (entry.lexer.sp.lastToken === entry.start.sp.lastToken) {
+    // no token is lexed by the application, so the token before it is still the last one
+    lexer.sp.lastToken = previous
+  }
+  if (lexer.cst) {
+    lexer.sp.cstChildren = entry.node ? { child: entry.node, before: outerCst } : outerCst
+  }
+  if ('failure' in entry) {
+    throw entry.failure
+  }
+  return entry.result
+}
+
+// a left-recursive result grows while each attempt consumes more than the last
+function grows(grown: MemoEntry, entry: MemoEntry): boolean {
+  return 'result' in grown && grown.lexer.sp.offset > entry.lexer.sp.offset
+}
+
+// an attempt of an application starting at `start`, where `lexer` is
+function attemptEntry(parse: (lexer: Lexer) => any, lexer: Lexer, rule: () => Parser<any>, start: Lexer): MemoEntry {
+  try {
+    return succeededEntry(parse(lexer), lexer, rule, start)
+  } catch (e) {
+    if (e instanceof ParseFailure) {
+      return failedEntry(e, lexer, rule, start)
+    }
+    throw e
+  }
+}
+
+async function attemptEntryAsync(parse: (lexer: Lexer) => Promise<any>, lexer: Lexer, rule: () => Parser<any>, start: Lexer): Promise<MemoEntry> {
+  try {
+    return succeededEntry(await parse(lexer), lexer, rule, start)
+  } catch (e) {
+    if (e instanceof ParseFailure) {
+      return failedEntry(e, lexer, rule, start)
+    }
+    throw e
+  }
+}
+
+function succeededEntry(result: any, lexer: Lexer, rule: () => Parser<any>, start: Lexer): MemoEntry {
+  // a rule consuming nothing still makes a node
+  const node = lexer.cst ? cstNode(lexer, rule) || new CstNode(ruleName(rule), []) : undefined
+  return { result, lexer: lexer.clone(), reach: lexer.reached.offset, start, node }
+}
+
+function failedEntry(failure: ParseFailure, lexer: Lexer, rule: () => Parser<any>, start: Lexer): MemoEntry {
+  return { failure, lexer: lexer.clone(), reach: lexer.reached.offset, start, node: cstNode(lexer, rule) }
+}
+
+// the node of what a rule has consumed, if any
+function cstNode(lexer: Lexer, rule: () => Parser<any>): CstNode | undefined {
+  return lexer.cst && lexer.sp.cstChildren ? new CstNode(ruleName(rule), cstElements(lexer.sp.cstChildren)) : undefined
+}
+
+// the children of a node in order, the tokens made leaves
+function cstElements(list: CstList | undefined): CstElement[] {
+  const elements: CstElement[] = []
+  for (let item = list; item; item = item.before) {
+    elements.push(item.child instanceof Token ? new CstLeaf(item.child) : item.child)
+  }
+  return elements.reverse()
+}
+
+// the session of the running `ParseSession.run`; parsing is synchronous, so there is at most one running
+let currentSession: ParseSession | undefined
+
+// parsers made by `syntax`, which are traced at the rule level
+const ruleParsers = new WeakSet<Parser<any>>()
+
+/**
+ * Makes a nonterminal from a rule, which may be left-recursive.
+ * Out of any `ParseSession`, a session without memoization is started for resolving left recursion.
+ */
 export function syntax<T>(rule: () => Parser<T>): Parser<T> {
-  return trivial(undefined).then(new Lazy(rule))
+  const body = new Lazy(rule)
+  const parser: Parser<T> = new Parser((lexer: Lexer) => {
+    if (!currentSession) {
+      return new ParseSession().run(parser, lexer)
+    }
+    return currentSession.apply(rule, lexer, bodyLexer => body.eval().parseSync(bodyLexer))
+  }, `syntax(${rule.name})`, { kind: 'rule', rule, body })
+  parser._async = (lexer: Lexer, session: ParseSession | undefined) => session
+    ? session.applyAsync(rule, lexer, bodyLexer => parseAsync(body.eval(), bodyLexer, session))
+    : new ParseSession().runAsync(parser, lexer)
+  ruleParsers.add(parser)
+  return parser
+}
+
+/** Results in the user state of the current branch of parsing, without parsing. `ParseSession` can give the state to start with, and makes these combinators typed by it. */
+export function getState<S>(): Parser<S> {
+  return new Parser((lexer: Lexer) => {
+    return lexer.state
+  }, 'getState', { kind: 'empty' })
+}
+
+/**
+ * Replaces the user state, and results in the new state.
+ * The state is restored along with the lexer whenever parsing backtracks, so it must be replaced rather than modified in place,
+ * e.g. `modifyState<string[]>(names => names.concat(name))` instead of pushing `name`.
+ */
+export function setState<S>(state: S): Parser<S> {
+  return new Parser((lexer: Lexer) => {
+    lexer.state = state
+    return state
+  }, 'setState', { kind: 'empty' })
+}
+
+/** Replaces the user state by what `modify` makes of it, and results in the new state. See `setState`. */
+export function modifyState<S>(modify: (state: S) => S): Parser<S> {
+  return new Parser((lexer: Lexer) => {
+    lexer.state = modify(lexer.state)
+    return lexer.state
+  }, 'modifyState', { kind: 'empty' })
 }
 
 /** A parser that results in `value` immediately without parsing. */
 export function trivial<T>(value: T): Parser<T> {
-  return new Parser(async () => {
+  return new Parser(() => {
     return value
-  }, `trivial(${value})`)
+  }, `trivial(${value})`, { kind: 'empty' })
 }
 
 /** Parses a token. */
 export function token(tokenType: string): Parser<Token> {
-  return new Parser(async (lexer: Lexer) => {
+  return new Parser((lexer: Lexer) => {
     const earlySp = lexer.sp.clone()
     let token = lexer.nextExceptEOF(() => {
       lexer.sp.assign(earlySp) // resume source position because this actually consumes no input
-      throw new ParseFailure(`unexpected end of file, expected ${tokenType}`, lexer.sp.name, lexer.sp.line, lexer.sp.column)
+      throw hinted(lexer, new ExpectationFailure('end of file', [describeTokenType(tokenType)], lexer.sp.name, lexer.sp.line, lexer.sp.column))
     })
     if (token.type === tokenType) {
       return token
     } else {
       lexer.sp.assign(earlySp) // resume source position because this actually consumes no input
-      throw new ParseFailure(`expected ${tokenType}, got ${token.type}`, lexer.sp.name, token.line, token.column)
+      throw hinted(lexer, new ExpectationFailure(`'${token.literal}'`, [describeTokenType(tokenType)], lexer.sp.name, token.line, token.column, token.end))
     }
-  }, `token(${tokenType})`)
+  }, `token(${tokenType})`, { kind: 'token', tokenType })
 }
 
 export function tokenLiteral(tokenType: string, literal: string): Parser<Token> {
-  return new Parser(async (lexer: Lexer) => {
+  return new Parser((lexer: Lexer) => {
     const earlySp = lexer.sp.clone()
     let token = lexer.nextExceptEOF(() => {
       lexer.sp.assign(earlySp) // resume source position because this actually consumes no input
-      throw new ParseFailure(`unexpected end of file, expected '${literal}'`, lexer.sp.name, lexer.sp.line, lexer.sp.column)
+      throw hinted(lexer, new ExpectationFailure('end of file', [`'${literal}'`], lexer.sp.name, lexer.sp.line, lexer.sp.column))
     })
     if (token.type === tokenType && token.literal === literal) {
       return token
     } else {
       lexer.sp.assign(earlySp) // resume source position because this actually consumes no input
-      throw new ParseFailure(`expected '${literal}', got '${token.literal}'`, lexer.sp.name, token.line, token.column)
+      throw hinted(lexer, new ExpectationFailure(`'${token.literal}'`, [`'${literal}'`], lexer.sp.name, token.line, token.column, token.end))
     }
-  }, `tokenLiteral(${tokenType}, ${literal})`)
+  }, `tokenLiteral(${tokenType}, ${literal})`, { kind: 'literal', literal })
 }
 
-/** Parses a bare literal string. If failed, no input is consumed. */
+/**
+ * Parses a bare literal string, after spaces and comments if the rule set skips them like it does before tokens.
+ * If failed, no input is consumed.
+ */
 export function string(literal: string): Parser<string> {
-  return new Parser(async (lexer: Lexer) => {
-    if (lexer.sp.rest.startsWith(literal)) {
-      lexer.sp.advance(literal.length)
+  return new Parser((lexer: Lexer) => {
+    const earlySp = lexer.sp.clone()
+    if (lexer.currentRuleSet.skipSpaces) {
+      lexer.skipWhites()
+    }
+    lexer.examine(lexer.sp.offset + literal.length)
+    if (lexer.sp.startsWith(literal)) {
+      lexer.consume(literal, literal.length)
       return literal
-    } else {
-      throw new ParseFailure(`expected '${literal}', got '${literal}'`, lexer.sp.name, lexer.sp.line, lexer.sp.column)
     }
+    const failure = new ExpectationFailure(found(lexer, literal.length), [`'${literal}'`], lexer.sp.name, lexer.sp.line, lexer.sp.column)
+    lexer.sp.assign(earlySp)
+    throw hinted(lexer, failure)
+  }, `string(${literal})`, { kind: 'literal', literal })
+}
+
+/**
+ * Character-level parsers, which parse the source directly rather than its tokens, for scannerless grammars.
+ * They skip no spaces or comments before what they parse, and each consumes what it parses as a token (see `Lexer.consume`), so that trivia and concrete syntax trees are kept.
+ * If failed, no input is consumed.
+ *
+ * Usage:
+ * const rules = new RuleSet([], { skipSpaces: false, lineComment: '#' })
+ * const key = lexeme(regex(/\w+/).translate(m => m[0]))
+ * const entry = key.bind(k => symbol('=').then(lexeme(many(noneOf('#\n')))).translate(v => [k, v.join('')]))
+ * spaces().then(many(entry)).eof().parseSync(new Lexer(rules, 'a = 1 # one\nb = 2'))
+ * // => [['a', '1 '], ['b', '2']]
+ */
+
+/** Parses the character `c`, which is one code point. */
+export function char(c: string): Parser<string> {
+  if (characters(c).length !== 1) {
+    throw new TypeError(`char: expected a single character, got '${c}'`)
+  }
+  return character(x => x === c, `'${c}'`, `char(${c})`, { kind: 'literal', literal: c })
+}
+
+/** Parses a character for which `predicate` holds, described by `label`. */
+export function satisfy(predicate: (c: string) => boolean, label: string = 'a character satisfying the predicate'): Parser<string> {
+  return character(predicate, label, `satisfy(${label})`, { kind: 'opaque', label })
+}
+
+/** Parses a character in `chars`. */
+export function oneOf(chars: string): Parser<string> {
+  return character(x => chars.indexOf(x) > -1, `one of '${chars}'`, `oneOf(${chars})`, { kind: 'alternation', alternatives: characters(chars).map<Shape>(literal => ({ kind: 'literal', literal })) })
+}
+
+/** Parses a character not in `chars`. */
+export function noneOf(chars: string): Parser<string> {
+  return character(x => chars.indexOf(x) < 0, `none of '${chars}'`, `noneOf(${chars})`, { kind: 'opaque', label: `none of '${chars}'` })
+}
+
+/** Parses a character from `from` to `to` inclusive, by their code points. */
+export function range(from: string, to: string): Parser<string> {
+  const low = from.codePointAt(0)!
+  const high = to.codePointAt(0)!
+  return character(x => x.codePointAt(0)! >= low && x.codePointAt(0)! <= high, `'${from}'-'${to}'`, `range(${from}, ${to})`, { kind: 'opaque', label: `'${from}'-'${to}'` })
+}
+
+/**
+ * Parses the text matched by `pattern` at the position, whether or not it is anchored by '^', and results in the match with its capture groups.
+ * The match may be empty, though a pattern matching nothing cannot be repeated by `many` or `more`.
+ */
+export function regex(pattern: RegExp): Parser<RegExpMatchArray> {
+  return new Parser((lexer: Lexer) => {
+    const m = lexer.sp.match(pattern)
+    // one more character is looked at, which decides where the match ends
+    lexer.examine(lexer.sp.offset + (m ? m[0].length : 0) + 1)
+    if (m) {
+      lexer.consume('regex', m[0].length)
+      return m
+    }
+    throw hinted(lexer, new ExpectationFailure(found(lexer, 1), [String(pattern)], lexer.sp.name, lexer.sp.line, lexer.sp.column))
+  }, `regex(${pattern})`, { kind: 'opaque', label: String(pattern) })
+}
+
+/** Skips spaces, line breaks and the comments of the rule set, if any. Never fails. */
+export function spaces(): Parser<undefined> {
+  return new Parser((lexer: Lexer) => {
+    lexer.skipWhites()
+    lexer.examine(lexer.sp.offset + 1)
+    return undefined
+  }, 'spaces', { kind: 'empty' })
+}
+
+/** Parses `parser`, then skips the spaces and comments after it (see `spaces`). */
+export function lexeme<T>(parser: Parser<T> | Lazy<Parser<T>>): Parser<T> {
+  return twinned(new Parser((lexer: Lexer) => {
+    const result = unlazy(parser).parseSync(lexer)
+    lexer.skipWhites()
+    lexer.examine(lexer.sp.offset + 1)
+    return result
+  }, 'lexeme', { kind: 'sequence', items: [parser] }), async (lexer, session) => {
+    const result = await parseAsync(parser, lexer, session)
+    lexer.skipWhites()
+    lexer.examine(lexer.sp.offset + 1)
+    return result
   })
 }
 
+/** Parses a literal string and skips the spaces and comments after it. */
+export function symbol(literal: string): Parser<string> {
+  return lexeme(string(literal)).tag(`symbol(${literal})`)
+}
+
+// parses a character for which `predicate` holds, or fails expecting `expected`.
+// a character is a code point, so a surrogate pair is given to `predicate` and consumed whole
+function character(predicate: (c: string) => boolean, expected: string, tag: string, shape: Shape): Parser<string> {
+  return new Parser((lexer: Lexer) => {
+    lexer.examine(lexer.sp.offset + 1)
+    if (!lexer.sp.eof) {
+      if (isHighSurrogate(lexer.sp.source.charCodeAt(lexer.sp.index))) {
+        lexer.examine(lexer.sp.offset + 2)
+      }
+      const c = found(lexer, 1).slice(1, -1)
+      if (predicate(c)) {
+        return lexer.consume('char', c.length).literal
+      }
+    }
+    throw hinted(lexer, new ExpectationFailure(found(lexer, 1), [expected], lexer.sp.name, lexer.sp.line, lexer.sp.column))
+  }, tag, shape)
+}
+
+// what is found in place of an expected text of `length` characters, in the form of `ExpectationFailure.unexpected`,
+// taking the rest of a surrogate pair it ends in
+function found(lexer: Lexer, length: number): string {
+  if (lexer.sp.eof) {
+    return 'end of file'
+  }
+  const { source, index } = lexer.sp
+  const end = isHighSurrogate(source.charCodeAt(index + length - 1)) && isLowSurrogate(source.charCodeAt(index + length)) ? index + length + 1 : index + length
+  return `'${source.slice(index, end)}'`
+}
+
+// the characters of `text`, keeping its surrogate pairs whole
+function characters(text: string): string[] {
+  return text.match(/[\ud800-\udbff][\udc00-\udfff]|[^]/g) || []
+}
+
+function isHighSurrogate(code: number): boolean {
+  return code >= 0xd800 && code <= 0xdbff
+}
+
+function isLowSurrogate(code: number): boolean {
+  return code >= 0xdc00 && code <= 0xdfff
+}
+
+// a token type is described by itself if it is a word, or else quoted like a literal
+function describeTokenType(tokenType: string): string {
+  return /^\w+$/.test(tokenType) ? tokenType : `'${tokenType}'`
+}
+
+// succeeds at the end of file, consuming no input
+function endOfFile(): Parser<undefined> {
+  return new Parser((lexer: Lexer) => {
+    let tk: Token
+    try {
+      tk = lexer.clone().next()
+    } catch (e) {
+      if (e instanceof EOF) {
+        return undefined
+      }
+      throw e
+    }
+    throw hinted(lexer, new ExpectationFailure(`'${tk.literal}'`, ['end of file'], lexer.sp.name, tk.line, tk.column, tk.end))
+  }, 'eof')
+}
+
 /** Parses an arbitrary token. */
 export function anyToken(): Parser<Token> {
-  return new Parser(async (lexer: Lexer) => {
+  return new Parser((lexer: Lexer) => {
     const earlySp = lexer.sp.clone()
     return lexer.nextExceptEOF(() => {
       lexer.sp.assign(earlySp) // resume source position because this actually consumes no input
-      throw new ParseFailure(`unexpected end of file, expected a token`, lexer.sp.name, lexer.sp.line, lexer.sp.column)
+      throw hinted(lexer, new ExpectationFailure('end of file', ['a token'], lexer.sp.name, lexer.sp.line, lexer.sp.column))
     })
-  }, 'anyToken')
+  }, 'anyToken', { kind: 'opaque', label: 'any token' })
 }
 
 export function identity<T>(parser: Parser<T> | Lazy<Parser<T>>): Parser<T> {
@@ -285,42 +1449,76 @@ export function optionalList<T>(what: Parser<T[]> | Lazy<Parser<T[]>>): Parser<T
  * Parses *zero* or more occurrence of a sequence the parser accepts.
  * For each attempt, if the parser failed with consuming input, the `many` parser also fails.
  * If the parser failed without consuming input, the `many` parser ends successfully.
+ * What the failed attempt expected is still reported by a failure right after it, e.g. `unexpected '2', expected ',' or ']'` after the items of a list.
+ * If the parser succeeded without consuming input, it would be repeated for ever, so an `Error` is thrown instead.
  *
  * `ones() { return many(one) }` should work the same with `ones() { return ifElse(one.eval().bindLazy(x => ones().bind(xs => trivial([x].concat(xs)))), trivialLazy([])) }`, but with higher performance.
  * Or `ones ::= many(one)` <=> `ones ::= do { x <- one; xs <- ones; return (x:xs) } <|> return []` if you prefer Haskell representation.
  */
 export function many<T>(one: Parser<T> | Lazy<Parser<T>>): Parser<T[]> {
-  return new Parser(async (lexer: Lexer) => {
+  return twinned(new Parser((lexer: Lexer) => {
     const _one = unlazy(one)
     const result: T[] = []
     for (let i = 0; i < MAX_REPEAT; i++) {
       const earlySp = lexer.sp.clone()
+      const earlyDiagnostics = lexer.diagnostics
+      const earlyState = lexer.state
       try {
-        const r = await _one.parse(lexer)
+        const r = _one.parseSync(lexer)
         result.push(r)
       } catch (e) {
-        if (e instanceof ParseFailure || e instanceof EOF) {
-          if (lexer.sp.compareTo(earlySp) !== 'equal') {
-            // if consumed, the error must be thrown
-            throw e
-          }
-          return result
-        } else {
-          throw e
-        }
+        endRepetition(e, lexer, earlySp, earlyDiagnostics, earlyState)
+        return result
+      }
+      checkProgress(_one, lexer, earlySp)
+    }
+    console.warn(`warning: pattern repeated too many times, some of the result are no longer parsed (maximum = ${MAX_REPEAT})`)
+    return result
+  }, 'many', { kind: 'repetition', min: 0, item: one }), async (lexer, session) => {
+    const _one = unlazy(one)
+    const result: T[] = []
+    for (let i = 0; i < MAX_REPEAT; i++) {
+      const earlySp = lexer.sp.clone()
+      const earlyDiagnostics = lexer.diagnostics
+      const earlyState = lexer.state
+      try {
+        result.push(await parseAsync(_one, lexer, session))
+      } catch (e) {
+        endRepetition(e, lexer, earlySp, earlyDiagnostics, earlyState)
+        return result
       }
+      checkProgress(_one, lexer, earlySp)
     }
     console.warn(`warning: pattern repeated too many times, some of the result are no longer parsed (maximum = ${MAX_REPEAT})`)
     return result
-  }, 'many')
+  })
+}
+
+// ends a repetition at the failure of an occurrence, which is thrown if it is not a failure consuming nothing
+function endRepetition(e: any, lexer: Lexer, earlySp: SourcePosition, earlyDiagnostics: ParseFailure[], earlyState: any) {
+  if (!(e instanceof ParseFailure || e instanceof EOF) || lexer.sp.compareTo(earlySp) !== 'equal') {
+    // if consumed, the error must be thrown
+    throw e
+  }
+  // failures recovered from and the user state set in the abandoned iteration are dropped, while what it expected is left as a hint
+  lexer.diagnostics = earlyDiagnostics
+  lexer.state = earlyState
+  addHint(lexer, e, earlySp)
+}
+
+// an occurrence succeeding without consuming anything would be repeated for ever, which is a mistake of the grammar
+function checkProgress(one: Parser<unknown>, lexer: Lexer, earlySp: SourcePosition) {
+  if (lexer.sp.compareTo(earlySp) === 'equal') {
+    throw new Error(`parser ${one._tag || '<untagged>'} consumes nothing, so it cannot be repeated`)
+  }
 }
 
 /** Parses *one* or more occurrence of a sequence the parser accepts. */
 export function more<T>(one: Parser<T> | Lazy<Parser<T>>): Parser<T[]> {
-  return identity(one).bind(x => many(one).bind(xs => {
+  return shaped(identity(one).bind(x => many(one).bind(xs => {
     xs.unshift(x)
     return trivial(xs)
-  }))
+  })), { kind: 'repetition', min: 1, item: one })
 }
 
 /**
@@ -331,63 +1529,70 @@ export function more<T>(one: Parser<T> | Lazy<Parser<T>>): Parser<T[]> {
  * If both fail, an error is thrown.
  * If both succeed but one consumes more tokens than the other, the former is taken and the latter is treated as failed.
  * If both succeed and consume the same number of tokens, the ambiguity is reported.
+ * Each branch parses in its own user state (see `getState`), and the state of the branch taken is kept.
  */
 export function parallel<IfType, ElseType>(ifParser: Parser<IfType> | Lazy<Parser<IfType>>, elseParser: Parser<ElseType> | Lazy<Parser<ElseType>>): Parser<IfType | ElseType> {
-  return new Parser(async (lexer: Lexer) => {
-    const _ifParser = unlazy(ifParser)
-    const _elseParser = unlazy(elseParser)
+  return twinned(new Parser((lexer: Lexer) => {
     const ifLexer = lexer.clone()
     const elseLexer = lexer.clone()
-    const ifPromise = (async () => {
-      try {
-        return await _ifParser.parse(ifLexer)
-      } catch (e) {
-        if (e instanceof ParseFailure) {
-          return e
-        } else {
-          throw e
-        }
-      }
-    })()
-    const elsePromise = (async () => {
-      try {
-        return await _elseParser.parse(elseLexer)
-      } catch (e) {
-        if (e instanceof ParseFailure) {
-          return e
-        } else {
-          throw e
-        }
-      }
-    })()
-    return new Promise((resolve, reject) => {
-      Promise.all([ifPromise, elsePromise])
-      .then(([ifResult, elseResult]) => {
-        if (ifResult instanceof ParseFailure && elseResult instanceof ParseFailure) {
-          reject(ifResult.combine(elseResult))
-        } else if (ifResult instanceof ParseFailure) {
-          lexer.sp.assign(elseLexer.sp)
-          resolve(elseResult as ElseType)
-        } else if (elseResult instanceof ParseFailure) {
-          lexer.sp.assign(ifLexer.sp)
-          resolve(ifResult as IfType)
-        } else {
-          if (ifLexer.sp.compareTo(elseLexer.sp) === 'forward') {
-            lexer.sp.assign(elseLexer.sp)
-          } else {
-            lexer.sp.assign(ifLexer.sp)
-          }
-          reject(new Error(`syntax ambiguity found in parallel parser` +
-            (_ifParser._tag ? `if = '${_ifParser._tag}'` : '') +
-            (_elseParser._tag ? `else = '${_elseParser._tag}'` : '') +
-            `\nwhere results are ${ifResult}, ${elseResult}`))
-        }
-      })
-      .catch(err => {
-        reject(err)
-      })
-    })
-  }, 'parallel')
+    const ifResult = parseOrFailure(unlazy(ifParser), ifLexer)
+    const elseResult = parseOrFailure(unlazy(elseParser), elseLexer)
+    return takeParallel(lexer, unlazy(ifParser), ifLexer, ifResult, unlazy(elseParser), elseLexer, elseResult)
+  }, 'parallel', { kind: 'alternation', alternatives: [ifParser, elseParser] }), async (lexer, session) => {
+    const ifLexer = lexer.clone()
+    const elseLexer = lexer.clone()
+    const ifResult = await parseOrFailureAsync(unlazy(ifParser), ifLexer, session)
+    const elseResult = await parseOrFailureAsync(unlazy(elseParser), elseLexer, session)
+    return takeParallel(lexer, unlazy(ifParser), ifLexer, ifResult, unlazy(elseParser), elseLexer, elseResult)
+  })
+}
+
+// takes the result of the branch of `parallel` consuming more
+function takeParallel<IfType, ElseType>(lexer: Lexer, _ifParser: Parser<IfType>, ifLexer: Lexer, ifResult: IfType | ParseFailure, _elseParser: Parser<ElseType>, elseLexer: Lexer, elseResult: ElseType | ParseFailure): IfType | ElseType {
+  if (ifResult instanceof ParseFailure && elseResult instanceof ParseFailure) {
+    throw ifResult.merge(elseResult)
+  } else if (ifResult instanceof ParseFailure) {
+    lexer.assign(elseLexer)
+    return elseResult as ElseType
+  } else if (elseResult instanceof ParseFailure) {
+    lexer.assign(ifLexer)
+    return ifResult as IfType
+  } else {
+    if (ifLexer.sp.compareTo(elseLexer.sp) === 'forward') {
+      lexer.assign(elseLexer)
+    } else {
+      lexer.assign(ifLexer)
+    }
+    throw new Error(`syntax ambiguity found in parallel parser` +
+      (_ifParser._tag ? `if = '${_ifParser._tag}'` : '') +
+      (_elseParser._tag ? `else = '${_elseParser._tag}'` : '') +
+      `\nwhere results are ${ifResult}, ${elseResult}`)
+  }
+}
+
+// returns the failure instead of throwing it
+function parseOrFailure<T>(parser: Parser<T>, lexer: Lexer): T | ParseFailure {
+  try {
+    return parser.parseSync(lexer)
+  } catch (e) {
+    if (e instanceof ParseFailure) {
+      return e
+    } else {
+      throw e
+    }
+  }
+}
+
+async function parseOrFailureAsync<T>(parser: Parser<T>, lexer: Lexer, session: ParseSession | undefined): Promise<T | ParseFailure> {
+  try {
+    return await parseAsync(parser, lexer, session)
+  } catch (e) {
+    if (e instanceof ParseFailure) {
+      return e
+    } else {
+      throw e
+    }
+  }
 }
 
 /**
@@ -395,15 +1600,15 @@ export function parallel<IfType, ElseType>(ifParser: Parser<IfType> | Lazy<Parse
  *
  * The parser first tries to parse the `ifParser`, and if failed and consuming no input, parses the `elseParser`.
  * If `ifParser` fails and consumes the input, the error generated by it is thrown without checking the `elseParser`.
- * If both failed, a combined error is thrown when `elseParser` consumes no input, or else only throws the error generated by `elseParser`.
+ * If both failed, the errors are merged (see `ParseFailure.merge`) when `elseParser` consumes no input, or else only throws the error generated by `elseParser`.
  */
 export function ifElse<IfType, ElseType>(ifParser: Parser<IfType> | Lazy<Parser<IfType>>, elseParser: Parser<ElseType> | Lazy<Parser<ElseType>>): Parser<IfType | ElseType> {
-  return new Parser(async (lexer: Lexer) => {
+  return twinned(new Parser((lexer: Lexer) => {
     const _ifParser = unlazy(ifParser)
     const _elseParser = unlazy(elseParser)
     const earlyLexer = lexer.clone() // backtrack is implemented by saving the early lexer state
     try {
-      return await _ifParser.parse(lexer)
+      return _ifParser.parseSync(lexer)
     } catch (e) {
       if (e instanceof ParseFailure) {
         if (lexer.sp.compareTo(earlyLexer.sp) !== 'equal') {
@@ -412,8 +1617,9 @@ export function ifElse<IfType, ElseType>(ifParser: Parser<IfType> | Lazy<Parser<
         }
         const elseLexer = earlyLexer.clone()
         try {
-          const elseResult = await _elseParser.parse(elseLexer)
-          lexer.sp.assign(elseLexer.sp)
+          const elseResult = _elseParser.parseSync(elseLexer)
+          lexer.assign(elseLexer)
+          addHint(lexer, e, earlyLexer.sp)
           return elseResult
         } catch (e1) {
           if (elseLexer.sp.compareTo(earlyLexer.sp) !== 'equal') {
@@ -421,7 +1627,7 @@ export function ifElse<IfType, ElseType>(ifParser: Parser<IfType> | Lazy<Parser<
             throw e1
           }
           if (e1 instanceof ParseFailure) {
-            throw e1.combine(e)
+            throw e.merge(e1)
           } else {
             throw e1
           }
@@ -430,24 +1636,46 @@ export function ifElse<IfType, ElseType>(ifParser: Parser<IfType> | Lazy<Parser<
         throw e
       }
     }
-  }, 'ifElse')
+  }, 'ifElse', { kind: 'alternation', alternatives: [ifParser, elseParser] }), async (lexer, session) => {
+    const earlyLexer = lexer.clone()
+    try {
+      return await parseAsync<IfType | ElseType>(ifParser, lexer, session)
+    } catch (e) {
+      if (!(e instanceof ParseFailure) || lexer.sp.compareTo(earlyLexer.sp) !== 'equal') {
+        throw e
+      }
+      const elseLexer = earlyLexer.clone()
+      try {
+        const elseResult = await parseAsync(elseParser, elseLexer, session)
+        lexer.assign(elseLexer)
+        addHint(lexer, e, earlyLexer.sp)
+        return elseResult
+      } catch (e1) {
+        if (elseLexer.sp.compareTo(earlyLexer.sp) === 'equal' && e1 instanceof ParseFailure) {
+          throw e.merge(e1)
+        }
+        throw e1
+      }
+    }
+  })
 }
 
 /**
  * Tries every choice in the parser list, until one succeeds.
  *
- * If all fails, only the error of the one who consumes the most input is thrown. If multiple ones consume the same most input, a combined error of them is thrown.
+ * If all fails, only the error of the one who consumes the most input is thrown. If multiple ones consume the same most input, their errors are merged (see `ParseFailure.merge`).
  * Or else, the first successful result is returned.
  */
 export function choices<ResultType>(...parsers: (Parser<any> | Lazy<Parser<any>>)[]): Parser<ResultType> {
-  return new Parser(async (lexer: Lexer) => {
+  return twinned(new Parser((lexer: Lexer) => {
     const _parsers = parsers.map(unlazy)
     let errs: { err: ParseFailure, sp: SourcePosition }[] = []
     for (let i = 0; i < _parsers.length; i++) {
       const newLexer = lexer.clone()
       try {
-        const result = await _parsers[i].parse(newLexer)
-        lexer.sp.assign(newLexer.sp)
+        const result = _parsers[i].parseSync(newLexer)
+        hintAlternatives(newLexer, errs, lexer.sp)
+        lexer.assign(newLexer)
         return result
       } catch (e) {
         if (e instanceof ParseFailure && i + 1 < _parsers.length) {
@@ -455,25 +1683,43 @@ export function choices<ResultType>(...parsers: (Parser<any> | Lazy<Parser<any>>
           continue
         } else if (e instanceof ParseFailure) { // the last error
           errs.push({ err: e, sp: newLexer.sp.clone() })
-          // console.log(errs.map(e => ({ msg: e.err.msg, rest: e.sp.rest, l: e.sp.line, c: e.sp.column })))
           errs = mostConsumedErrors(errs)
-          // console.log('----------')
-          // console.log(errs.map(e => ({ msg: e.err.msg, rest: e.sp.rest, l: e.sp.line, c: e.sp.column })))
-          if (errs.length === 1) {
-            throw errs[0].err
-          } else {
-            e = errs[0].err
-            for (let j = 1; j < errs.length; j++) {
-              e = e.combine(errs[j].err)
-            }
-            throw e
-          }
+          throw errs.map(x => x.err).reduce((merged, err) => merged.merge(err))
         } else {
           throw e
         }
       }
     }
-  }, 'choices')
+  }, 'choices', { kind: 'alternation', alternatives: parsers }), async (lexer, session) => {
+    const _parsers = parsers.map(unlazy)
+    const errs: { err: ParseFailure, sp: SourcePosition }[] = []
+    for (let i = 0; i < _parsers.length; i++) {
+      const newLexer = lexer.clone()
+      try {
+        const result = await parseAsync(_parsers[i], newLexer, session)
+        hintAlternatives(newLexer, errs, lexer.sp)
+        lexer.assign(newLexer)
+        return result
+      } catch (e) {
+        if (!(e instanceof ParseFailure)) {
+          throw e
+        }
+        errs.push({ err: e, sp: newLexer.sp.clone() })
+      }
+    }
+    if (errs.length) {
+      throw mostConsumedErrors(errs).map(x => x.err).reduce((merged, err) => merged.merge(err))
+    }
+  })
+}
+
+// leaves the failures of the alternatives before a successful one as hints, of those consuming nothing if the successful one consumed nothing either
+function hintAlternatives(lexer: Lexer, errs: { err: ParseFailure, sp: SourcePosition }[], earlySp: SourcePosition) {
+  errs.forEach(x => {
+    if (x.sp.compareTo(earlySp) === 'equal') {
+      addHint(lexer, x.err, earlySp)
+    }
+  })
 }
 
 function mostConsumedErrors(errs: { err: ParseFailure, sp: SourcePosition }[]): { err: ParseFailure, sp: SourcePosition }[] {
@@ -493,10 +1739,10 @@ function mostConsumedErrors(errs: { err: ParseFailure, sp: SourcePosition }[]):
 
 /** Parses *one* or more occurrence of `one` separated by `separator`. */
 export function moreSeparated<T, SepT>(one: Parser<T> | Lazy<Parser<T>>, separator: Parser<SepT> | Lazy<Parser<SepT>>): Parser<T[]> {
-  return identity(one).bind(x => many(identity(separator).then(one)).bind(xs => {
+  return shaped(identity(one).bind(x => many(identity(separator).then(one)).bind(xs => {
     xs.unshift(x)
     return trivial(xs)
-  }))
+  })), { kind: 'repetition', min: 1, item: one, separator })
 }
 
 /** Parses *zero* or more occurrence of `one` separated by `separator`. */
@@ -506,10 +1752,13 @@ export function manySeparated<T, SepT>(one: Parser<T> | Lazy<Parser<T>>, separat
 
 /** Parses *one* or more occurrence of `one` separated by `separator`, and ends with one optional occurrence of `separator`. */
 export function moreSeparatedOptionalEnd<T, SepT>(one: Parser<T> | Lazy<Parser<T>>, separator: Parser<SepT> | Lazy<Parser<SepT>>): Parser<T[]> {
-  return identity(one).bind(x => many(attempt(identity(separator).then(one))).bind(xs => {
+  return shaped(identity(one).bind(x => many(attempt(identity(separator).then(one))).bind(xs => {
     xs.unshift(x)
     return trivial(xs)
-  })).bind(xs => optional(separator).end(xs))
+  })).bind(xs => optional(separator).end(xs)), {
+    kind: 'sequence',
+    items: [{ kind: 'repetition', min: 1, item: one, separator }, { kind: 'alternation', alternatives: [separator, { kind: 'empty' }] }]
+  })
 }
 
 /** Parses *zero* or more occurrence of `one` separated by `separator`, and ends with one optional occurrence of `separator`. */
@@ -519,170 +1768,325 @@ export function manySeparatedOptionalEnd<T, SepT>(one: Parser<T> | Lazy<Parser<T
 
 /** Parses *one* or more occurrence of `one`, every ended with one occurrence of `separator`. */
 export function moreEndWith<T, SepT>(one: Parser<T> | Lazy<Parser<T>>, endWith: Parser<SepT> | Lazy<Parser<SepT>>): Parser<T[]> {
-  return more(identity(one).bind(x => identity(endWith).end(x)))
+  return shaped(more(identity(one).bind(x => identity(endWith).end(x))), { kind: 'repetition', min: 1, item: { kind: 'sequence', items: [one, endWith] } })
 }
 
 /** Parses *zero* or more occurrence of `one`, every ended with one occurrence of `separator`. */
 export function manyEndWith<T, SepT>(one: Parser<T> | Lazy<Parser<T>>, endWith: Parser<SepT> | Lazy<Parser<SepT>>): Parser<T[]> {
-  return many(identity(one).bind(x => identity(endWith).end(x)))
+  return shaped(many(identity(one).bind(x => identity(endWith).end(x))), { kind: 'repetition', min: 0, item: { kind: 'sequence', items: [one, endWith] } })
 }
 
 export function chainLeftMore<T>(expr: Parser<T> | Lazy<Parser<T>>, operator: Parser<(x: T, y: T) => T> | Lazy<Parser<(x: T, y: T) => T>>): Parser<T> {
-  return new Parser(async (lexer: Lexer) => {
+  return twinned(new Parser((lexer: Lexer) => {
     const _expr = unlazy(expr)
     const _operator = unlazy(operator)
 
-    function rest(x: T): Parser<T> {
-      return new Parser(async (lexer: Lexer) => {
-        try {
-          const f = await _operator.parse(lexer)
-          const y = await _expr.parse(lexer)
-          return rest(f(x, y)).parse(lexer)
-        } catch (e) {
-          if (e instanceof ParseFailure) {
-            return x
-          } else {
-            throw e
-          }
+    let x = _expr.parseSync(lexer)
+    while (true) {
+      const earlySp = lexer.sp.clone()
+      try {
+        const f = _operator.parseSync(lexer)
+        const y = _expr.parseSync(lexer)
+        x = f(x, y)
+      } catch (e) {
+        if (e instanceof ParseFailure) {
+          addHint(lexer, e, earlySp)
+          return x
+        } else {
+          throw e
         }
-      }, 'chainLeftMore::rest')
+      }
     }
-
-    const x = await _expr.parse(lexer)
-    return rest(x).parse(lexer)
-  }, 'chainLeftMore')
+  }, 'chainLeftMore', { kind: 'repetition', min: 1, item: expr, separator: operator }), async (lexer, session) => {
+    let x = await parseAsync(expr, lexer, session)
+    while (true) {
+      const earlySp = lexer.sp.clone()
+      try {
+        const f = await parseAsync(operator, lexer, session)
+        const y = await parseAsync(expr, lexer, session)
+        x = f(x, y)
+      } catch (e) {
+        if (e instanceof ParseFailure) {
+          addHint(lexer, e, earlySp)
+          return x
+        }
+        throw e
+      }
+    }
+  })
 }
 
 export function chainRightMore<T>(expr: Parser<T> | Lazy<Parser<T>>, operator: Parser<(x: T, y: T) => T> | Lazy<Parser<(x: T, y: T) => T>>): Parser<T> {
-  return new Parser(async (lexer: Lexer) => {
+  return twinned(new Parser((lexer: Lexer) => {
     const _expr = unlazy(expr)
     const _operator = unlazy(operator)
 
-    function scan(): Parser<T> {
-      return new Parser(async (lexer: Lexer) => {
-        const x = await _expr.parse(lexer)
-        return rest(x).parse(lexer)
-      }, 'chainRightMore::scan')
+    // operands and operators are parsed in a loop, and folded from the right
+    const xs = [_expr.parseSync(lexer)]
+    const fs: ((x: T, y: T) => T)[] = []
+    while (true) {
+      const earlySp = lexer.sp.clone()
+      try {
+        const f = _operator.parseSync(lexer)
+        xs.push(_expr.parseSync(lexer))
+        fs.push(f)
+      } catch (e) {
+        if (e instanceof ParseFailure) {
+          addHint(lexer, e, earlySp)
+          break
+        }
+        throw e
+      }
     }
-
-    function rest(x: T): Parser<T> {
-      return new Parser(async (lexer: Lexer) => {
-        try {
-          const f = await _operator.parse(lexer)
-          const y = await scan().parse(lexer)
-          return f(x, y)
-        } catch (e) {
-          if (e instanceof ParseFailure) {
-            return x
-          } else {
-            throw e
-          }
+    let x = xs[xs.length - 1]
+    for (let i = fs.length - 1; i >= 0; i--) {
+      x = fs[i](xs[i], x)
+    }
+    return x
+  }, 'chainRightMore', { kind: 'repetition', min: 1, item: expr, separator: operator }), async (lexer, session) => {
+    // operands and operators are parsed in a loop, and folded from the right
+    const xs = [await parseAsync(expr, lexer, session)]
+    const fs: ((x: T, y: T) => T)[] = []
+    while (true) {
+      const earlySp = lexer.sp.clone()
+      try {
+        const f = await parseAsync(operator, lexer, session)
+        xs.push(await parseAsync(expr, lexer, session))
+        fs.push(f)
+      } catch (e) {
+        if (e instanceof ParseFailure) {
+          addHint(lexer, e, earlySp)
+          break
         }
-      }, 'chainRightMore::rest')
+        throw e
+      }
     }
-
-    return scan().parse(lexer)
-  }, 'chainRightMore')
+    let x = xs[xs.length - 1]
+    for (let i = fs.length - 1; i >= 0; i--) {
+      x = fs[i](xs[i], x)
+    }
+    return x
+  })
 }
 
 export function anyLeftMore<T>(expr: Parser<any> | Lazy<Parser<any>>, operator: Parser<(x: any, y: any) => any> | Lazy<Parser<(x: any, y: any) => any>>): Parser<T> {
-  return new Parser(async (lexer: Lexer) => {
-    const _expr = unlazy(expr)
-    const _operator = unlazy(operator)
+  return chainLeftMore<any>(expr, operator).tag('anyLeftMore')
+}
 
-    function rest(x: any): Parser<any> {
-      return new Parser(async (lexer: Lexer) => {
-        try {
-          const f = await _operator.parse(lexer)
-          const y = await _expr.parse(lexer)
-          return rest(f(x, y)).parse(lexer)
-        } catch (e) {
-          if (e instanceof ParseFailure) {
-            return x
-          } else {
-            throw e
-          }
+export function anyRightMore<T>(expr: Parser<any> | Lazy<Parser<any>>, operator: Parser<(x: any, y: any) => any> | Lazy<Parser<(x: any, y: any) => any>>): Parser<T> {
+  return chainRightMore<any>(expr, operator).tag('anyRightMore')
+}
+
+/**
+ * An operator in an `OperatorTable`.
+ * The parser of an infix operator results in the binary function combining its two operands,
+ * and that of a prefix or postfix operator results in the unary function applied to its operand.
+ */
+export type Operator<T> =
+  { fixity: 'infix', associativity: Associativity, operator: Parser<(x: T, y: T) => T> | Lazy<Parser<(x: T, y: T) => T>> }
+| { fixity: 'prefix' | 'postfix', operator: Parser<(x: T) => T> | Lazy<Parser<(x: T) => T>> }
+
+/** Operators grouped by precedence levels, in order of higher->lower, the same as `operators` of a `RuleSet`. */
+export type OperatorTable<T> = Operator<T>[][]
+
+/**
+ * An operator-precedence parser, like `buildExpressionParser` of Parsec.
+ *
+ * Builds an expression parser of `term`s connected by the operators of `table`.
+ * On each level, prefix operators bind tighter than postfix operators, and both bind tighter than infix operators.
+ * Infix operators of the same level must agree on their associativity, and a non-associative operator cannot be chained (e.g. `a == b == c`).
+ */
+export function expression<T>(term: Parser<T> | Lazy<Parser<T>>, table: OperatorTable<T>): Parser<T> {
+  return table.reduce((operand, level, i) => {
+    if (i > 0 && operand._shape) {
+      // levels are described as rules, so that the operands of infix operators are not written out twice
+      shaped(operand, { kind: 'rule', rule: () => operand, body: operand._shape, name: `expression_${i}` })
+    }
+    return precedenceLevel(operand, level)
+  }, identity(term)).tag('expression')
+}
+
+function precedenceLevel<T>(term: Parser<T>, level: Operator<T>[]): Parser<T> {
+  const prefix: (Parser<(x: T) => T> | Lazy<Parser<(x: T) => T>>)[] = []
+  const postfix: (Parser<(x: T) => T> | Lazy<Parser<(x: T) => T>>)[] = []
+  const infix: Parser<{ associativity: Associativity, f: (x: T, y: T) => T }>[] = []
+  level.forEach(op => {
+    if (op.fixity === 'infix') {
+      infix.push(identity(op.operator).translate(f => ({ associativity: op.associativity, f })))
+    } else if (op.fixity === 'prefix') {
+      prefix.push(op.operator)
+    } else {
+      postfix.push(op.operator)
+    }
+  })
+  const prefixes = prefix.length ? many(choices<(x: T) => T>(...prefix)) : trivial([])
+  const postfixes = postfix.length ? many(choices<(x: T) => T>(...postfix)) : trivial([])
+  const infixOperator = choices<{ associativity: Associativity, f: (x: T, y: T) => T }>(...infix)
+
+  const operand = twinned(new Parser((lexer: Lexer) => {
+    const pres = prefixes.parseSync(lexer)
+    const x = term.parseSync(lexer)
+    return applyUnary(pres, x, postfixes.parseSync(lexer))
+  }, `operand(${term._tag})`, { kind: 'sequence', items: [prefixes, term, postfixes] }), async (lexer, session) => {
+    const pres = await parseAsync(prefixes, lexer, session)
+    const x = await parseAsync(term, lexer, session)
+    return applyUnary(pres, x, await parseAsync(postfixes, lexer, session))
+  })
+
+  if (!infix.length) {
+    return operand
+  }
+
+  return twinned(new Parser((lexer: Lexer) => {
+    const operands = [operand.parseSync(lexer)]
+    const operators: ((x: T, y: T) => T)[] = []
+    let associativity: Associativity | undefined
+    while (true) {
+      const earlyLexer = lexer.clone()
+      let op
+      try {
+        op = infixOperator.parseSync(lexer)
+      } catch (e) {
+        if (e instanceof ParseFailure && lexer.sp.compareTo(earlyLexer.sp) === 'equal') {
+          addHint(lexer, e, earlyLexer.sp)
+          break
+        }
+        throw e
+      }
+      associativity = checkAssociativity(associativity, op.associativity, earlyLexer)
+      operators.push(op.f)
+      operands.push(operand.parseSync(lexer))
+    }
+    return applyInfix(operands, operators, associativity)
+  }, `infix(${term._tag})`, { kind: 'repetition', min: 1, item: operand, separator: infixOperator }), async (lexer, session) => {
+    const operands = [await parseAsync(operand, lexer, session)]
+    const operators: ((x: T, y: T) => T)[] = []
+    let associativity: Associativity | undefined
+    while (true) {
+      const earlyLexer = lexer.clone()
+      let op
+      try {
+        op = await parseAsync(infixOperator, lexer, session)
+      } catch (e) {
+        if (e instanceof ParseFailure && lexer.sp.compareTo(earlyLexer.sp) === 'equal') {
+          addHint(lexer, e, earlyLexer.sp)
+          break
         }
-      }, 'anyLeftMore::rest')
+        throw e
+      }
+      associativity = checkAssociativity(associativity, op.associativity, earlyLexer)
+      operators.push(op.f)
+      operands.push(await parseAsync(operand, lexer, session))
     }
+    return applyInfix(operands, operators, associativity)
+  })
+}
 
-    const x = await _expr.parse(lexer)
-    return rest(x).parse(lexer)
-  }, 'anyLeftMore')
+// applies the prefix operators from the innermost, and then the postfix operators
+function applyUnary<T>(pres: ((x: T) => T)[], x: T, posts: ((x: T) => T)[]): T {
+  for (let i = pres.length - 1; i >= 0; i--) {
+    x = pres[i](x)
+  }
+  for (let i = 0; i < posts.length; i++) {
+    x = posts[i](x)
+  }
+  return x
 }
 
-export function anyRightMore<T>(expr: Parser<any> | Lazy<Parser<any>>, operator: Parser<(x: any, y: any) => any> | Lazy<Parser<(x: any, y: any) => any>>): Parser<T> {
-  return new Parser(async (lexer: Lexer) => {
-    const _expr = unlazy(expr)
-    const _operator = unlazy(operator)
+// the associativity of the infix operators chained so far, which the next operator `op` must agree on
+function checkAssociativity(associativity: Associativity | undefined, op: Associativity, earlyLexer: Lexer): Associativity {
+  if (associativity === 'none') {
+    throw operatorFailure(earlyLexer, 'non-associative operator', 'cannot be chained')
+  } else if (associativity !== undefined && associativity !== op) {
+    throw operatorFailure(earlyLexer, `${op} associative operator`, `cannot be mixed with ${associativity} associative operators of the same precedence`)
+  }
+  return op
+}
 
-    function scan(): Parser<any> {
-      return new Parser(async (lexer: Lexer) => {
-        const x = await _expr.parse(lexer)
-        return rest(x).parse(lexer)
-      }, 'anyRightMore::scan')
+function applyInfix<T>(operands: T[], operators: ((x: T, y: T) => T)[], associativity: Associativity | undefined): T {
+  if (associativity === 'right') {
+    let x = operands[operands.length - 1]
+    for (let i = operators.length - 1; i >= 0; i--) {
+      x = operators[i](operands[i], x)
     }
+    return x
+  } else {
+    let x = operands[0]
+    for (let i = 0; i < operators.length; i++) {
+      x = operators[i](x, operands[i + 1])
+    }
+    return x
+  }
+}
 
-    function rest(x: any): Parser<any> {
-      return new Parser(async (lexer: Lexer) => {
-        try {
-          const f = await _operator.parse(lexer)
-          const y = await scan().parse(lexer)
-          return f(x, y)
-        } catch (e) {
-          if (e instanceof ParseFailure) {
-            return x
-          } else {
-            throw e
-          }
-        }
-      }, 'anyRightMore::rest')
-    }
-
-    return scan().parse(lexer)
-  }, 'anyRightMore')
-}
-
-// An operator-precedence parser.
-// export function arithmetic<ResultT>(
-//   precedenceLevels: (
-//     {
-//       operatorParser: Parser<any> | Lazy<Parser<any>>,
-//       operandParsers: (Parser<any> | Lazy<Parser<any>>)[],
-//       associativity: 'none' | 'left' | 'right',
-//       calculation: (...operands: any[]) => any,
-//     } | {
-//       operatorParser: Parser<any> | Lazy<Parser<any>>,
-//       operandParsers: (Parser<any> | Lazy<Parser<any>>)[],
-//       associativity: 'none' | 'left' | 'right',
-//       calculation: (...operands: any[]) => any,
-//     }[]
-//   )[]
-// ): Parser<ResultT> {
-//   async function matchOperator(lexer: Lexer) {
-//     for (let i = 0; i < precedenceLevels.length; i++) {
-//       const precedenceLevel = precedenceLevels[i]
-//       if (precedenceLevel instanceof Array) {
-//         for (let j = 0; j < precedenceLevel.length; j++) {
-//           const operation = precedenceLevel[j]
-//           try {
-//             const op = await attempt(operation.operatorParser).parse(lexer)
-//           } catch (e) {
-//           }
-//         }
-//       }
-//     }
-//   }
-// }
+// an operator error is reported at the operator token, which is the next token of `lexer`
+function operatorFailure(lexer: Lexer, what: string, reason: string): ParseFailure {
+  const tk = anyToken().parseSync(lexer)
+  return new ParseFailure(`${what} '${tk.literal}' ${reason}`, lexer.sp.name, tk.line, tk.column, tk.end)
+}
+
+/** Parses a token whose literal is `pattern`, or completely matches `pattern` if it is a regular expression. */
+export function operatorToken(pattern: string | RegExp): Parser<Token> {
+  return new Parser((lexer: Lexer) => {
+    const earlySp = lexer.sp.clone()
+    const expected = typeof pattern === 'string' ? `'${pattern}'` : `operator ${pattern}`
+    const tk = lexer.nextExceptEOF(() => {
+      lexer.sp.assign(earlySp) // resume source position because this actually consumes no input
+      throw hinted(lexer, new ExpectationFailure('end of file', [expected], lexer.sp.name, lexer.sp.line, lexer.sp.column))
+    })
+    let m
+    if (typeof pattern === 'string' ? tk.literal === pattern : (m = tk.literal.match(pattern)) && m[0] === tk.literal) {
+      return tk
+    } else {
+      lexer.sp.assign(earlySp) // resume source position because this actually consumes no input
+      throw hinted(lexer, new ExpectationFailure(`'${tk.literal}'`, [expected], lexer.sp.name, tk.line, tk.column, tk.end))
+    }
+  }, `operatorToken(${pattern})`, typeof pattern === 'string' ? { kind: 'literal', literal: pattern } : { kind: 'opaque', label: `operator ${pattern}` })
+}
+
+/**
+ * Builds an `OperatorTable` from the operators registered in a `RuleSet`.
+ * Operator tokens are recognized by their literals. Each operator token is combined with its operand(s) by the given `actions`.
+ */
+export function operatorTable<T>(
+  ruleSet: RuleSet,
+  actions: {
+    infix?: (operator: Token, x: T, y: T) => T,
+    prefix?: (operator: Token, x: T) => T,
+    postfix?: (operator: Token, x: T) => T
+  }
+): OperatorTable<T> {
+  const levels: OperatorTable<T> = []
+  const add = (pattern: string | RegExp, { precedence, associativity, fixity }: OperatorPrecedence) => {
+    const action = actions[fixity]
+    if (!action) {
+      throw new Error(`operator table: no action is given for ${fixity} operator ${pattern}`)
+    }
+    const level = levels[precedence] = levels[precedence] || []
+    if (fixity === 'infix') {
+      const infix = action as (operator: Token, x: T, y: T) => T
+      level.push({ fixity, associativity, operator: operatorToken(pattern).translate(tk => (x: T, y: T) => infix(tk, x, y)) })
+    } else {
+      const unary = action as (operator: Token, x: T) => T
+      level.push({ fixity, operator: operatorToken(pattern).translate(tk => (x: T) => unary(tk, x)) })
+    }
+  }
+  for (let pattern in ruleSet.precedence.static) {
+    ruleSet.precedence.static[pattern].forEach(p => add(pattern, p))
+  }
+  ruleSet.precedence.dynamic.forEach(p => add(p.pattern, p))
+  // precedences may be sparse
+  return levels.filter(level => level)
+}
 
 /**
  * Tries to parse the specified parser and returns the result, but consume no input.
  */
 export function test<T>(what: Parser<T> | Lazy<Parser<T>>): Parser<T> {
-  return new Parser(async (lexer: Lexer) => {
+  return twinned(new Parser((lexer: Lexer) => {
     const _what = unlazy(what)
-    return _what.parse(lexer.clone())
-  }, 'test')
+    return _what.parseSync(lexer.clone())
+  }, 'test', { kind: 'lookahead', negative: false, item: what }), (lexer, session) => parseAsync(what, lexer.clone(), session))
 }
 
 /**
@@ -691,82 +2095,199 @@ export function test<T>(what: Parser<T> | Lazy<Parser<T>>): Parser<T> {
  * It has the same effect as `test(what).then(what)`, but more efficient because it does not parse again.
  */
 export function attempt<T>(what: Parser<T> | Lazy<Parser<T>>): Parser<T> {
-  return new Parser(async (lexer: Lexer) => {
+  return twinned(new Parser((lexer: Lexer) => {
     const _what = unlazy(what)
     const newLexer = lexer.clone()
-    const result = await _what.parse(newLexer) // if error here, lexer will keep the same
-    lexer.sp.assign(newLexer.sp)
+    const result = _what.parseSync(newLexer) // if error here, lexer will keep the same
+    lexer.assign(newLexer)
+    return result
+  }, 'attempt', { kind: 'sequence', items: [what] }), async (lexer, session) => {
+    const newLexer = lexer.clone()
+    const result = await parseAsync(what, newLexer, session)
+    lexer.assign(newLexer)
     return result
-  }, 'attempt')
+  })
+}
+
+/** A result with the span of source it is parsed from, whose `originalOffset`s are a range of the original source to edit by `ParseSession.reparse` (see `Position`). */
+export type Located<T> = { value: T, start: Position, end: Position }
+
+/**
+ * Parses the specified parser and locates the result in the source.
+ * `start` is the beginning of the first token parsed, so leading spaces and comments are not in the span. `end` is right after the last token parsed.
+ * A result consuming no input is located where it is found, with `start` equal to `end`.
+ */
+export function withSpan<T>(parser: Parser<T> | Lazy<Parser<T>>): Parser<Located<T>> {
+  return twinned(new Parser((lexer: Lexer) => {
+    const _parser = unlazy(parser)
+    const earlySp = lexer.sp.clone()
+    const startLexer = startOfSpan(lexer)
+    const value = _parser.parseSync(lexer)
+    return located(value, lexer, earlySp, startLexer)
+  }, 'withSpan', { kind: 'sequence', items: [parser] }), async (lexer, session) => {
+    const earlySp = lexer.sp.clone()
+    const startLexer = startOfSpan(lexer)
+    const value = await parseAsync(parser, lexer, session)
+    return located(value, lexer, earlySp, startLexer)
+  })
+}
+
+function startOfSpan(lexer: Lexer): Lexer {
+  // spaces are skipped on a clone, or else the input would be consumed even if the parser fails
+  const startLexer = lexer.clone()
+  if (startLexer.currentRuleSet.skipSpaces) {
+    startLexer.skipWhites()
+  }
+  return startLexer
+}
+
+function located<T>(value: T, lexer: Lexer, earlySp: SourcePosition, startLexer: Lexer): Located<T> {
+  const end = lexer.sp.position
+  const start = lexer.sp.compareTo(earlySp) === 'equal' ? end : startLexer.sp.position
+  return { value, start, end }
+}
+
+/**
+ * Panic-mode error recovery.
+ *
+ * If `parser` fails, the failure is recorded as a diagnostic of the parse (see `ParseSession.diagnostics`), tokens are skipped until one of the `syncTokens` (see `skipUntil`),
+ * and `fallback` results in place of the failed result. `fallback` can also be a function making the placeholder from the failure and the skipped tokens.
+ *
+ * If the parser consumes no input and nothing is skipped, nothing is recovered, so the failure is thrown as it is and left to the enclosing alternatives.
+ */
+export function recover<T, F>(parser: Parser<T> | Lazy<Parser<T>>, syncTokens: string[], fallback: F | ((failure: ParseFailure, skipped: Token[]) => F)): Parser<T | F> {
+  return twinned(new Parser((lexer: Lexer) => {
+    const _parser = unlazy(parser)
+    const earlySp = lexer.sp.clone()
+    const earlyState = lexer.state
+    try {
+      return _parser.parseSync(lexer)
+    } catch (e) {
+      return recovered(e, lexer, earlySp, earlyState, syncTokens, fallback)
+    }
+  }, 'recover', { kind: 'sequence', items: [parser] }), async (lexer, session) => {
+    const earlySp = lexer.sp.clone()
+    const earlyState = lexer.state
+    try {
+      return await parseAsync<T | F>(parser, lexer, session)
+    } catch (e) {
+      return recovered(e, lexer, earlySp, earlyState, syncTokens, fallback)
+    }
+  })
+}
+
+// the fallback result of `recover` after the failure `e`, which is thrown again if it cannot be recovered from
+function recovered<F>(e: any, lexer: Lexer, earlySp: SourcePosition, earlyState: any, syncTokens: string[], fallback: F | ((failure: ParseFailure, skipped: Token[]) => F)): F {
+  if (!(e instanceof ParseFailure)) {
+    throw e
+  }
+  // the user state set by the failed parse is dropped along with its result
+  lexer.state = earlyState
+  const skipped = skipUntil(syncTokens).parseSync(lexer)
+  if (lexer.sp.compareTo(earlySp) === 'equal') {
+    throw e
+  }
+  lexer.diagnostics = lexer.diagnostics.concat(e)
+  return typeof fallback === 'function' ? (fallback as (failure: ParseFailure, skipped: Token[]) => F)(e, skipped) : fallback
+}
+
+/**
+ * Skips tokens until the next token is of one of the `tokenTypes`, or the end of file, and results in the skipped tokens. The token found is not consumed.
+ * Input that cannot be tokenized is skipped character by character, and is not in the result.
+ */
+export function skipUntil(tokenTypes: string[]): Parser<Token[]> {
+  return new Parser((lexer: Lexer) => {
+    const skipped: Token[] = []
+    while (true) {
+      const earlySp = lexer.sp.clone()
+      let tk: Token
+      try {
+        tk = lexer.next()
+      } catch (e) {
+        if (e instanceof EOF) {
+          lexer.sp.assign(earlySp)
+          return skipped
+        } else if (e instanceof ParseFailure) {
+          lexer.sp.assign(earlySp)
+          lexer.sp.advance()
+          continue
+        } else {
+          throw e
+        }
+      }
+      if (tokenTypes.indexOf(tk.type) > -1) {
+        lexer.sp.assign(earlySp)
+        return skipped
+      }
+      skipped.push(tk)
+    }
+  }, `skipUntil(${tokenTypes.join(', ')})`, { kind: 'opaque', label: `anything until ${tokenTypes.join(', ')}` })
 }
 
 /** Monad combinator `liftM`. Translate the result of a parser into a new structure. */
 export function translate<A, B>(translation: (a: A) => B, pa: Parser<A>): Parser<B> {
-  return new Parser(async (lexer: Lexer) => {
-    const resultOfA = await pa.parse(lexer)
+  return twinned(new Parser((lexer: Lexer) => {
+    const resultOfA = pa.parseSync(lexer)
     return translation(resultOfA)
-  })
+  }, 'translate', { kind: 'sequence', items: [pa] }), async (lexer, session) => translation(await parseAsync(pa, lexer, session)))
 }
 
 /** Monad combinator `liftM2`. Combine the results of two parsers into a new structure. */
 export function combine2<A, B, C>(combination: (a: A, b: B) => C, pa: Parser<A>, pb: Parser<B>): Parser<C> {
-  return new Parser(async (lexer: Lexer) => {
-    const promiseOfA = pa.parse(lexer)
-    const promiseOfB = pb.parse(lexer)
-    return new Promise(resolve => {
-      Promise.all([promiseOfA, promiseOfB])
-      .then(([resultOfA, resultOfB]) => {
-        resolve(combination(resultOfA, resultOfB))
-      })
-    })
+  return twinned(new Parser((lexer: Lexer) => {
+    const resultOfA = pa.parseSync(lexer)
+    const resultOfB = pb.parseSync(lexer)
+    return combination(resultOfA, resultOfB)
+  }, 'combine2', { kind: 'sequence', items: [pa, pb] }), async (lexer, session) => {
+    const results = await parseSequenceAsync([pa, pb], lexer, session)
+    return combination(results[0], results[1])
   })
 }
 
 /** Monad combinator `liftM3`. Combine the results of three parsers into a new structure. */
 export function combine3<A, B, C, D>(combination: (a: A, b: B, c: C) => D, pa: Parser<A>, pb: Parser<B>, pc: Parser<C>): Parser<D> {
-  return new Parser(async (lexer: Lexer) => {
-    const promiseOfA = pa.parse(lexer)
-    const promiseOfB = pb.parse(lexer)
-    const promiseOfC = pc.parse(lexer)
-    return new Promise(resolve => {
-      Promise.all([promiseOfA, promiseOfB, promiseOfC])
-      .then(([resultOfA, resultOfB, resultOfC]) => {
-        resolve(combination(resultOfA, resultOfB, resultOfC))
-      })
-    })
+  return twinned(new Parser((lexer: Lexer) => {
+    const resultOfA = pa.parseSync(lexer)
+    const resultOfB = pb.parseSync(lexer)
+    const resultOfC = pc.parseSync(lexer)
+    return combination(resultOfA, resultOfB, resultOfC)
+  }, 'combine3', { kind: 'sequence', items: [pa, pb, pc] }), async (lexer, session) => {
+    const results = await parseSequenceAsync([pa, pb, pc], lexer, session)
+    return combination(results[0], results[1], results[2])
   })
 }
 
 /** Monad combinator `liftM4`. Combine the results of four parsers into a new structure. */
 export function combine4<A, B, C, D, E>(combination: (a: A, b: B, c: C, d: D) => E, pa: Parser<A>, pb: Parser<B>, pc: Parser<C>, pd: Parser<D>): Parser<E> {
-  return new Parser(async (lexer: Lexer) => {
-    const promiseOfA = pa.parse(lexer)
-    const promiseOfB = pb.parse(lexer)
-    const promiseOfC = pc.parse(lexer)
-    const promiseOfD = pd.parse(lexer)
-    return new Promise(resolve => {
-      Promise.all([promiseOfA, promiseOfB, promiseOfC, promiseOfD])
-      .then(([resultOfA, resultOfB, resultOfC, resultOfD]) => {
-        resolve(combination(resultOfA, resultOfB, resultOfC, resultOfD))
-      })
-    })
+  return twinned(new Parser((lexer: Lexer) => {
+    const resultOfA = pa.parseSync(lexer)
+    const resultOfB = pb.parseSync(lexer)
+    const resultOfC = pc.parseSync(lexer)
+    const resultOfD = pd.parseSync(lexer)
+    return combination(resultOfA, resultOfB, resultOfC, resultOfD)
+  }, 'combine4', { kind: 'sequence', items: [pa, pb, pc, pd] }), async (lexer, session) => {
+    const results = await parseSequenceAsync([pa, pb, pc, pd], lexer, session)
+    return combination(results[0], results[1], results[2], results[3])
   })
 }
 
 /** Combine the results of any number of parsers into a new structure. */
 export function combineMany<CombinedType>(combination: (results: any[]) => CombinedType, ...parsers: Parser<any>[]): Parser<CombinedType> {
   if (parsers.length === 0) {
-    return new Parser(async (_) => {
+    return new Parser((_) => {
       return combination([])
-    })
+    }, 'combineMany', { kind: 'empty' })
   }
-  return new Parser(async (lexer: Lexer) => {
-    const promises = parsers.map(parser => parser.parse(lexer))
-    return new Promise(resolve => {
-      Promise.all(promises)
-      .then(results => {
-        resolve(combination(results))
-      })
-    })
-  })
+  return twinned(new Parser((lexer: Lexer) => {
+    const results = parsers.map(parser => parser.parseSync(lexer))
+    return combination(results)
+  }, 'combineMany', { kind: 'sequence', items: parsers }), async (lexer, session) => combination(await parseSequenceAsync(parsers, lexer, session)))
+}
+
+async function parseSequenceAsync(parsers: Parser<any>[], lexer: Lexer, session: ParseSession | undefined): Promise<any[]> {
+  const results: any[] = []
+  for (let i = 0; i < parsers.length; i++) {
+    results.push(await parseAsync(parsers[i], lexer, session))
+  }
+  return results
 }
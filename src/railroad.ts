@@ -0,0 +1,206 @@
+/**
+ * @description SVG railroad diagrams of the rules of a grammar.
+ */
+
+/**
+ * Usage:
+ * import { railroadDiagrams } from 'path/to/railroad'
+ *
+ * // a self-contained SVG for each `syntax` rule reachable from the parser
+ * railroadDiagrams(syntax(json.object)).forEach(({ name, svg }) => fs.writeFileSync(`${name}.svg`, svg))
+ *
+ * Tokens are drawn in rounded boxes, literals in rounded boxes with quotes, and rules in square boxes.
+ * Alternatives branch below the first one, an optional part branches below a line bypassing it, and a repetition loops back below with its separator if there is one.
+ * Parts opaque to `describe` are written as comments on the line.
+ */
+
+import { Parser, Lazy } from './parse'
+import { describe, Description } from './describe'
+
+// width of a character of the monospace font
+const CHAR_WIDTH = 8
+// radius of the arcs, which is also the least distance between two lines
+const ARC = 10
+const BOX_HEIGHT = 22
+const GAP = 10
+const PADDING = 20
+
+const STYLE = `
+  path { stroke-width: 2; stroke: black; fill: none; }
+  rect { stroke-width: 2; stroke: black; fill: #eef; }
+  rect.rule { fill: #efe; }
+  text { font: 12px monospace; text-anchor: middle; dominant-baseline: central; }
+  text.token { font-style: italic; }
+  text.comment { font-style: italic; fill: #666; }
+`
+
+// a laid out part of a diagram, whose line enters at the left and leaves at the right
+interface Box {
+  width: number
+  // extents above and below the line
+  up: number
+  down: number
+  // renders the part with its line entering at (x, y)
+  render(x: number, y: number): string
+}
+
+/** Renders a railroad diagram for each rule reachable from `parser`, and for the parser itself first if it is not a rule. */
+export function railroadDiagrams(parser: Parser<any> | Lazy<Parser<any>>, options: { start?: string } = {}): { name: string, svg: string }[] {
+  const { start, rules } = describe(parser)
+  const diagrams = rules.map(({ name, definition }) => ({ name, svg: railroadDiagram(definition, name) }))
+  if (start.kind !== 'rule') {
+    const name = options.start || 'start'
+    diagrams.unshift({ name, svg: railroadDiagram(start, name) })
+  }
+  return diagrams
+}
+
+/** Renders a description as a self-contained SVG railroad diagram, titled by `name` if given. */
+export function railroadDiagram(description: Description, name?: string): string {
+  const box = layout(description)
+  const width = box.width + 2 * (PADDING + GAP)
+  const height = box.up + box.down + 2 * PADDING
+  const y = PADDING + box.up
+  const x = PADDING
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+    name !== undefined ? `<title>${escape(name)}</title>` : '',
+    `<style>${STYLE}</style>`,
+    // the bars marking the start and the end
+    `<path d="M${x} ${y - ARC}v${2 * ARC}M${x + width - 2 * PADDING} ${y - ARC}v${2 * ARC}"/>`,
+    line(x, x + GAP, y),
+    box.render(x + GAP, y),
+    line(x + GAP + box.width, x + width - 2 * PADDING, y),
+    '</svg>',
+  ].filter(x => x).join('\n')
+}
+
+function layout(description: Description): Box {
+  switch (description.kind) {
+    case 'token': return terminal(description.tokenType, 'token')
+    case 'literal': return terminal(`'${description.literal}'`, 'literal')
+    case 'rule': return terminal(description.name, 'rule')
+    case 'sequence': return sequence(description.items.map(layout))
+    case 'alternation': return choice(description.alternatives.map(layout))
+    case 'optional': return choice([skip(), layout(description.item)])
+    case 'repetition': {
+      const loop = oneOrMore(layout(description.item), description.separator ? layout(description.separator) : skip())
+      return description.min === 0 ? choice([skip(), loop]) : loop
+    }
+    case 'lookahead': return comment(`${description.negative ? 'not ' : ''}followed by ...`)
+    case 'empty': return skip()
+    case 'end': return comment('end of file')
+    case 'opaque': return comment(description.label)
+  }
+}
+
+function terminal(text: string, kind: 'token' | 'literal' | 'rule'): Box {
+  const width = text.length * CHAR_WIDTH + 2 * GAP
+  return {
+    width,
+    up: BOX_HEIGHT / 2,
+    down: BOX_HEIGHT / 2,
+    render: (x, y) => {
+      const radius = kind === 'rule' ? 0 : BOX_HEIGHT / 2
+      return `<rect class="${kind}" x="${x}" y="${y - BOX_HEIGHT / 2}" width="${width}" height="${BOX_HEIGHT}" rx="${radius}" ry="${radius}"/>` +
+        `<text class="${kind}" x="${x + width / 2}" y="${y}">${escape(text)}</text>`
+    }
+  }
+}
+
+// a comment is written above the line
+function comment(text: string): Box {
+  const width = text.length * CHAR_WIDTH
+  return {
+    width,
+    up: BOX_HEIGHT,
+    down: BOX_HEIGHT / 2,
+    render: (x, y) => line(x, x + width, y) + `<text class="comment" x="${x + width / 2}" y="${y - BOX_HEIGHT / 2}">${escape(text)}</text>`
+  }
+}
+
+function skip(): Box {
+  return { width: 0, up: 0, down: 0, render: () => '' }
+}
+
+function sequence(items: Box[]): Box {
+  const visible = items.filter(x => x.width > 0)
+  return {
+    width: visible.reduce((width, item) => width + item.width, 0) + GAP * Math.max(0, visible.length - 1),
+    up: Math.max(0, ...visible.map(x => x.up)),
+    down: Math.max(0, ...visible.map(x => x.down)),
+    render: (x, y) => {
+      let svg = ''
+      visible.forEach((item, i) => {
+        if (i > 0) {
+          svg += line(x, x + GAP, y)
+          x += GAP
+        }
+        svg += item.render(x, y)
+        x += item.width
+      })
+      return svg
+    }
+  }
+}
+
+// the first alternative is on the line, and the others branch below it
+function choice(alternatives: Box[]): Box {
+  const inner = Math.max(...alternatives.map(x => x.width))
+  const width = inner + 4 * ARC
+  // distances of the alternatives below the line
+  const offsets = [0]
+  for (let i = 1; i < alternatives.length; i++) {
+    const above = alternatives[i - 1]
+    offsets.push(Math.max(offsets[i - 1] + above.down + GAP + alternatives[i].up, offsets[i - 1] + 2 * ARC))
+  }
+  return {
+    width,
+    up: alternatives[0].up,
+    down: Math.max(...alternatives.map((x, i) => offsets[i] + x.down)),
+    render: (x, y) => alternatives.map((alternative, i) => {
+      const offset = offsets[i]
+      const enter = i === 0
+        ? line(x, x + 2 * ARC, y)
+        : `<path d="M${x} ${y}a${ARC} ${ARC} 0 0 1 ${ARC} ${ARC}v${offset - 2 * ARC}a${ARC} ${ARC} 0 0 0 ${ARC} ${ARC}"/>`
+      const leave = i === 0
+        ? line(x + width - 2 * ARC, x + width, y)
+        : `<path d="M${x + width - 2 * ARC} ${y + offset}a${ARC} ${ARC} 0 0 0 ${ARC} ${-ARC}v${2 * ARC - offset}a${ARC} ${ARC} 0 0 1 ${ARC} ${-ARC}"/>`
+      return enter +
+        alternative.render(x + 2 * ARC, y + offset) +
+        line(x + 2 * ARC + alternative.width, x + width - 2 * ARC, y + offset) +
+        leave
+    }).join('')
+  }
+}
+
+// the item is on the line, and the separator is on the way looping back below it
+function oneOrMore(item: Box, separator: Box): Box {
+  const width = Math.max(item.width, separator.width) + 2 * ARC
+  const offset = Math.max(item.down + GAP + separator.up, 2 * ARC)
+  return {
+    width,
+    up: item.up,
+    down: offset + separator.down,
+    render: (x, y) => {
+      const loopY = y + offset
+      const separatorX = x + (width - separator.width) / 2
+      return line(x, x + ARC, y) +
+        item.render(x + ARC, y) +
+        line(x + ARC + item.width, x + width, y) +
+        `<path d="M${x + width - ARC} ${y}a${ARC} ${ARC} 0 0 1 ${ARC} ${ARC}v${offset - 2 * ARC}a${ARC} ${ARC} 0 0 1 ${-ARC} ${ARC}"/>` +
+        line(separatorX + separator.width, x + width - ARC, loopY) +
+        separator.render(separatorX, loopY) +
+        line(x + ARC, separatorX, loopY) +
+        `<path d="M${x + ARC} ${loopY}a${ARC} ${ARC} 0 0 1 ${-ARC} ${-ARC}v${2 * ARC - offset}a${ARC} ${ARC} 0 0 1 ${ARC} ${-ARC}"/>`
+    }
+  }
+}
+
+function line(from: number, to: number, y: number): string {
+  return to > from ? `<path d="M${from} ${y}h${to - from}"/>` : ''
+}
+
+function escape(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+}
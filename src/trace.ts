@@ -0,0 +1,198 @@
+/**
+ * @description A tracer of parser execution, for debugging grammars.
+ */
+
+/**
+ * Usage:
+ * import { Tracer } from 'path/to/trace'
+ *
+ * const tracer = new Tracer()
+ * new ParseSession({ tracer }).run(syntax(start), lexer)
+ *
+ * // the trace tree as indented text
+ * console.log(tracer.toText())
+ * // output:
+ * // syntax(expr) exit 1:1-1:6 "1 + 2"
+ * //   syntax(term) exit 1:1-1:2 "1"
+ * //   syntax(term) exit 1:5-1:6 "2"
+ *
+ * // or as JSON
+ * console.log(JSON.stringify(tracer, null, 2))
+ *
+ * // or watch the events as they happen
+ * new Tracer({ onEvent: event => console.log(event.kind, event.tag) })
+ */
+
+import { Lexer, ParseFailure, EOF, Position } from './lex'
+
+/**
+ * `enter`: a parser starts parsing.
+ * `exit`: it succeeds.
+ * `fail`: it fails after consuming input, so the enclosing alternatives will not try others (unless they `attempt` it).
+ * `backtrack`: it fails without consuming input, so the enclosing alternatives may try others from the same position.
+ */
+export type TraceEventKind = 'enter' | 'exit' | 'fail' | 'backtrack'
+
+export interface TraceEvent {
+  kind: TraceEventKind
+  tag: string
+  // count of traced parsers running outside this one
+  depth: number
+  start: Position
+  // equal to `start` for `enter` events
+  end: Position
+  // the source text from `start` to `end`
+  consumed: string
+  failure?: ParseFailure
+}
+
+export interface TraceNode {
+  tag: string
+  // undefined while the parser is running
+  outcome?: 'exit' | 'fail' | 'backtrack'
+  start: Position
+  end: Position
+  consumed: string
+  failure?: string
+  children: TraceNode[]
+}
+
+export interface TracerOptions {
+  // 'rules' traces `syntax` rules only, and 'all' traces every parser including the combinators. 'rules' by default
+  parsers?: 'rules' | 'all'
+  // called on every event as it happens
+  onEvent?: (event: TraceEvent) => void
+}
+
+// where the tracer is, to rewind to: the count of running parsers, and the count of nodes traced in the innermost one (or at the top level)
+export interface TraceMark {
+  depth: number
+  count: number
+}
+
+// consumed text longer than this is elided in text output
+const MAX_CONSUMED_SHOWN = 40
+
+/** Records the execution of the parsers run in a `ParseSession` given this tracer. */
+export class Tracer {
+  parsers: 'rules' | 'all'
+  onEvent?: (event: TraceEvent) => void
+  events: TraceEvent[]
+  // trees of the traced parsers run at the top level
+  roots: TraceNode[]
+  // nodes of the running parsers, the innermost last
+  private stack: TraceNode[]
+
+  constructor(options: TracerOptions = {}) {
+    this.parsers = options.parsers || 'rules'
+    this.onEvent = options.onEvent
+    this.events = []
+    this.roots = []
+    this.stack = []
+  }
+
+  /** Traces a parser tagged `tag`, which parses `lexer` by `parse`. */
+  trace<T>(tag: string, lexer: Lexer, parse: () => T): T {
+    const node = this.enter(tag, lexer)
+    try {
+      const result = parse()
+      this.exit(node, lexer)
+      return result
+    } catch (e) {
+      this.abort(node, lexer, e)
+      throw e
+    }
+  }
+
+  /** Traces a parser tagged `tag` like `trace`, which parses `lexer` asynchronously by `parse`. */
+  async traceAsync<T>(tag: string, lexer: Lexer, parse: () => Promise<T>): Promise<T> {
+    const node = this.enter(tag, lexer)
+    try {
+      const result = await parse()
+      this.exit(node, lexer)
+      return result
+    } catch (e) {
+      this.abort(node, lexer, e)
+      throw e
+    }
+  }
+
+  private enter(tag: string, lexer: Lexer): TraceNode {
+    const start = lexer.sp.position
+    const node: TraceNode = { tag, start, end: start, consumed: '', children: [] }
+    const parent = this.stack[this.stack.length - 1]
+    if (parent) {
+      parent.children.push(node)
+    } else {
+      this.roots.push(node)
+    }
+    this.emit(node, 'enter')
+    this.stack.push(node)
+    return node
+  }
+
+  private exit(node: TraceNode, lexer: Lexer) {
+    this.stack.pop()
+    this.finish(node, 'exit', lexer)
+  }
+
+  private abort(node: TraceNode, lexer: Lexer, e: any) {
+    this.stack.pop()
+    if (e instanceof ParseFailure || e instanceof EOF) {
+      this.finish(node, lexer.sp.offset === node.start.offset ? 'backtrack' : 'fail', lexer, e instanceof ParseFailure ? e : undefined)
+    }
+  }
+
+  /** Where the tracer is, to `rewind` to. */
+  mark(): TraceMark {
+    return { depth: this.stack.length, count: this.siblings(this.stack.length).length }
+  }
+
+  /** Drops the parsers traced since `mark`, running or not, e.g. those of parsing abandoned to be parsed again. Their events are kept. */
+  rewind(mark: TraceMark) {
+    this.stack.length = mark.depth
+    this.siblings(mark.depth).splice(mark.count)
+  }
+
+  /** The trace tree as indented text, a line for each traced parser. */
+  toText(): string {
+    const lines: string[] = []
+    const walk = (node: TraceNode, indent: string) => {
+      lines.push(indent + describeNode(node))
+      node.children.forEach(child => walk(child, indent + '  '))
+    }
+    this.roots.forEach(root => walk(root, ''))
+    return lines.join('\n')
+  }
+
+  toJSON(): TraceNode[] {
+    return this.roots
+  }
+
+  // the nodes traced in the running parser at `depth`, or at the top level
+  private siblings(depth: number): TraceNode[] {
+    return depth > 0 ? this.stack[depth - 1].children : this.roots
+  }
+
+  private finish(node: TraceNode, outcome: 'exit' | 'fail' | 'backtrack', lexer: Lexer, failure?: ParseFailure) {
+    node.outcome = outcome
+    node.end = lexer.sp.position
+    node.consumed = lexer.sp.source.slice(node.start.offset - lexer.sp.sourceOffset, node.end.offset - lexer.sp.sourceOffset)
+    node.failure = failure && failure.toString()
+    this.emit(node, outcome, failure)
+  }
+
+  private emit(node: TraceNode, kind: TraceEventKind, failure?: ParseFailure) {
+    const event: TraceEvent = { kind, tag: node.tag, depth: this.stack.length, start: node.start, end: node.end, consumed: node.consumed, failure }
+    this.events.push(event)
+    if (this.onEvent) {
+      this.onEvent(event)
+    }
+  }
+}
+
+function describeNode(node: TraceNode): string {
+  const span = `${node.start.line}:${node.start.column}-${node.end.line}:${node.end.column}`
+  const consumed = node.consumed.length > MAX_CONSUMED_SHOWN ? node.consumed.slice(0, MAX_CONSUMED_SHOWN) + '...' : node.consumed
+  return `${node.tag} ${node.outcome || 'running'} ${span} ${JSON.stringify(consumed)}` + (node.failure ? ` (${node.failure})` : '')
+}
@@ -19,6 +19,10 @@ export const noShift = (function() {
       parentheses: {
         '[]': true
       },
+      // lines are nested by indentation, except in brackets
+      layout: {
+        brackets: [['[', ']']]
+      },
       // use default numbers
       numbers: {
         integer: true,
@@ -147,3 +151,161 @@ export const test = (function() {
 
   return ruleSet
 })()
+
+export const arith = (function() {
+  const ruleSet = new RuleSet(
+    [
+      { pattern: /^(==|[+\-*\/^!])/, tokenType: 'operator' },
+      { pattern: ';', tokenType: ';' },
+    ],
+    {
+      skipSpaces: true,
+      parentheses: {
+        '()': true
+      },
+      numbers: {
+        integer: { hex: true }
+      },
+      operators: [
+        { pattern: '!', associativity: 'none', fixity: 'postfix' },
+        { pattern: '^', associativity: 'right' },
+        { pattern: '-', associativity: 'none', fixity: 'prefix' },
+        [{ pattern: '*', associativity: 'left' }, { pattern: '/', associativity: 'left' }],
+        [{ pattern: '+', associativity: 'left' }, { pattern: '-', associativity: 'left' }],
+        { pattern: '==', associativity: 'none' },
+      ]
+    }
+  )
+
+  return ruleSet
+})()
+
+export const html = (function() {
+  // inside a tag, from '<' to '>'
+  const tag = new RuleSet(
+    [
+      { pattern: /^[A-Za-z][A-Za-z0-9\-]*/, tokenType: 'name' },
+      { pattern: '=', tokenType: '=' },
+      { pattern: '/', tokenType: '/' },
+      { pattern: '>', tokenType: '>', mode: 'pop' },
+    ],
+    {
+      skipSpaces: true,
+      string: {
+        quotes: {
+          'string': '"'
+        }
+      }
+    }
+  )
+
+  // text out of tags
+  const ruleSet = new RuleSet(
+    [
+      { pattern: '<', tokenType: '<', mode: { push: 'tag' } },
+      { pattern: /^[^<]+/, tokenType: 'text' },
+    ],
+    {
+      skipSpaces: true,
+      modes: { tag }
+    }
+  )
+
+  return ruleSet
+})()
+
+export const templates = (function() {
+  const ruleSet = new RuleSet(
+    [
+      { pattern: /^[A-Za-z][A-Za-z0-9]*/, tokenType: 'name' },
+      { pattern: '{', tokenType: '{' },
+      { pattern: '}', tokenType: '}' },
+      { pattern: ':', tokenType: ':' },
+      { pattern: ',', tokenType: ',' },
+    ],
+    {
+      skipSpaces: true,
+      string: {
+        quotes: {
+          'template': { start: '`', stop: '`', multiline: true, interpolation: { open: '${', close: '}' } }
+        }
+      }
+    }
+  )
+
+  return ruleSet
+})()
+
+export const rawStrings = (function() {
+  const ruleSet = new RuleSet(
+    [],
+    {
+      skipSpaces: true,
+      string: {
+        quotes: {
+          // r#"..."#, closed by a quote and as many hashes as opened
+          'rust-raw': { start: /^r(#*)"/, stop: m => '"' + m[1], escape: false, multiline: true, keepDelimiters: true },
+          // R"delimiter(...)delimiter"
+          'cpp-raw': { start: /^R"([^()\\\s]{0,16})\(/, stop: m => ')' + m[1] + '"', escape: false, multiline: true },
+          // <<TAG, closed by TAG on a line of its own
+          'heredoc': { start: /^<<([A-Za-z_]+)\n/, stop: m => '\n' + m[1], escape: false, multiline: true },
+          'docstring': { start: '"""', stop: '"""', multiline: true, dedent: true },
+        }
+      }
+    }
+  )
+
+  return ruleSet
+})()
+
+export const longestMatch = (function() {
+  const ruleSet = new RuleSet(
+    [
+      // registered before '==', which is still lexed as a whole by the longest match
+      { pattern: '=', tokenType: '=' },
+      { pattern: '==', tokenType: '==' },
+      { pattern: /^[A-Za-z_][A-Za-z0-9_]*/, tokenType: 'identifier' },
+      // a type name rather than an identifier, for the tie of the same text
+      { pattern: /^[A-Z][A-Za-z0-9_]*/, tokenType: 'type', priority: 1 },
+    ],
+    {
+      skipSpaces: true,
+      longestMatch: true,
+      keywords: ['if', 'else'],
+    }
+  )
+
+  return ruleSet
+})()
+
+// no token rules, for the character-level parsers
+export const scannerless = (function() {
+  const ruleSet = new RuleSet(
+    [],
+    {
+      skipSpaces: false,
+      lineComment: '#',
+    }
+  )
+
+  return ruleSet
+})()
+
+// rules whose matches depend on the text around them, which are scanned as if the text before the token were not there
+export const contextual = (function() {
+  const ruleSet = new RuleSet(
+    [
+      // registered before '==', which is still lexed as a whole word
+      { pattern: '=', tokenType: '=' },
+      { pattern: '==', tokenType: '==' },
+      { pattern: /^\bx/, tokenType: 'bx' },
+      { pattern: /^(?<=a)b/, tokenType: 'ab' },
+      { pattern: /^[a-z]/, tokenType: 'letter' },
+    ],
+    {
+      skipSpaces: true,
+    }
+  )
+
+  return ruleSet
+})()
@@ -1,8 +1,116 @@
 import * as srcs from './testsrcs'
 import * as rules from './lex-rules'
-import { Lexer } from '../src/lex'
+import { EOF, Lexer, ParseFailure, RuleSet } from '../src/lex'
 
 export function LexTest() {
   var lexer = new Lexer(rules.json, srcs.json, 'test.json')
   lexer.show()
 }
+
+// the compiled rules lex the corpora into the same tokens as the rules tried one by one
+export function MatchTest() {
+  const corpora: [string, RuleSet, string][] = [
+    ['json', rules.json, srcs.json],
+    ['jssa', rules.jssa, srcs.jssa],
+    ['test', rules.test, srcs.test],
+    ['ints', rules.test, srcs.ints],
+    ['arith', rules.arith, srcs.arith],
+    ['difference', rules.arith, srcs.difference],
+    ['statements', rules.arith, srcs.statements],
+    ['counting', rules.arith, srcs.counting],
+    ['no-shift', rules.noShift, srcs.noShift],
+    ['dedent', rules.noShift, srcs.dedent],
+    ['trivia', rules.noShift, srcs.trivia],
+    ['html', rules.html, srcs.html],
+    ['templates', rules.templates, srcs.templates],
+    ['raw-strings', rules.rawStrings, srcs.rawStrings],
+    ['longest-match', rules.longestMatch, srcs.longestMatch],
+    ['scannerless', rules.scannerless, srcs.scannerless],
+    ['contextual', rules.contextual, srcs.contextual],
+  ]
+  corpora.forEach(([name, ruleSet, source]) => {
+    const compiled = tokens(new Lexer(ruleSet, source, name))
+    const expected = tokens(new Lexer(oneByOne(ruleSet), source, name))
+    const same = compiled.length === expected.length && compiled.every((x, i) => x === expected[i])
+    console.log(name, compiled.length, same ? 'tokens as one by one' : `tokens, but one by one: ${expected.join(' ')}`)
+  })
+  console.log(tokens(new Lexer(rules.contextual, srcs.contextual, 'contextual')).join(' '))
+}
+
+// the token type of a rule, or the function making its token
+type TokenType = RuleSet['dynamicGuard'][number]['tk']
+
+function tokens(lexer: Lexer): string[] {
+  const ts: string[] = []
+  while (true) {
+    try {
+      const token = lexer.next()
+      ts.push(`${token.type}:${JSON.stringify(token.literal)}`)
+    } catch (e) {
+      if (e instanceof EOF) {
+        return ts
+      } else if (e instanceof ParseFailure) {
+        return ts.concat(String(e))
+      }
+      throw e
+    }
+  }
+}
+
+// a rule set scanning a token by trying its static rules and then its dynamic rules one by one on the text after the token,
+// which is how the rules were scanned before they were compiled
+function oneByOne(ruleSet: RuleSet): RuleSet {
+  const reference: RuleSet = Object.create(ruleSet)
+  reference.modes = {}
+  Object.keys(ruleSet.modes).forEach(mode => reference.modes[mode] = oneByOne(ruleSet.modes[mode]))
+  const match = (source: string, index: number) => ruleSet.longestMatch ? longest(ruleSet, source.slice(index)) : first(ruleSet, source.slice(index))
+  Object.defineProperty(reference, 'matcher', { value: { match } })
+  return reference
+}
+
+function first(ruleSet: RuleSet, rest: string): { literal: string, tk: TokenType } | undefined {
+  // the whole word up to the next space is tried first
+  const word = rest.split(' ', 1)[0]
+  const tk = ruleSet.staticGuard.get(word)
+  if (tk !== undefined) {
+    return { literal: word, tk }
+  }
+  let found: { literal: string, tk: TokenType } | undefined
+  ruleSet.staticGuard.forEach((tk, key) => {
+    if (!found && rest.startsWith(key)) {
+      found = { literal: key, tk }
+    }
+  })
+  for (let i = 0; !found && i < ruleSet.dynamicGuard.length; i++) {
+    const m = rest.match(ruleSet.dynamicGuard[i].pat)
+    if (m !== null) {
+      found = { literal: m[0], tk: ruleSet.dynamicGuard[i].tk }
+    }
+  }
+  return found
+}
+
+function longest(ruleSet: RuleSet, rest: string): { literal: string, tk: TokenType } | undefined {
+  let best: { literal: string, tk: TokenType, keyword: boolean, priority: number } | undefined
+  const consider = (pattern: string | RegExp, literal: string, tk: TokenType) => {
+    const keyword = typeof tk === 'string' && tk.startsWith('__kw_')
+    const priority = ruleSet.priorities.get(pattern) || 0
+    if (!best || literal.length > best.literal.length || literal.length === best.literal.length && (
+      keyword !== best.keyword ? keyword : priority > best.priority
+    )) {
+      best = { literal, tk, keyword, priority }
+    }
+  }
+  ruleSet.staticGuard.forEach((tk, key) => {
+    if (rest.startsWith(key)) {
+      consider(key, key, tk)
+    }
+  })
+  ruleSet.dynamicGuard.forEach(({ pat, tk }) => {
+    const m = rest.match(pat)
+    if (m !== null && m.index === 0) {
+      consider(pat, m[0], tk)
+    }
+  })
+  return best
+}
@@ -1,6 +1,105 @@
-import { expr, json, test } from './syntax-rules'
+import { syntax, ParseSession } from '../src/parse'
+import { Tracer } from '../src/trace'
+import { toEBNF } from '../src/describe'
+import { railroadDiagrams } from '../src/railroad'
+import { printCst, CstElement, CstLeaf, CstNode } from '../src/cst'
+import { Trivia } from '../src/lex'
+import { arith, asyncs, expr, html, ints, json, longestMatch, noShift, rawStrings, recursions, scannerless, templates, test } from './syntax-rules'
 
 export function ParseTest() {
   // json.start().show(json.lexer)
   expr.start().show(test.lexer)
+  arith.start().show(arith.lexer)
+  syntax(arith.difference).eof().show(arith.differenceLexer)
+  ints.start().show(ints.lexer)
+  console.log('deep', ints.start().parseSync(ints.deepLexer).length)
+  // compiled once, however many times the rule is applied
+  console.log('grammar compiled once', ints.ints() === ints.ints())
+  ints.mistakes.forEach(mistake => {
+    try {
+      mistake()
+    } catch (e) {
+      console.log(String(e))
+    }
+  })
+  arith.statements().eof().show(arith.statementsLexer)
+  arith.statements().eof().show(arith.missingOperatorLexer)
+  syntax(arith.expr).eof().show(arith.missingOperandLexer)
+  arith.statement().show(arith.missingSemicolonLexer)
+  syntax(arith.expr).located().eof().show(arith.spanLexer)
+  const tracer = new Tracer()
+  new ParseSession({ tracer }).run(syntax(arith.difference).eof(), arith.traceLexer)
+  console.log(tracer.toText())
+  console.log(toEBNF(syntax(arith.statements)))
+  // the `term` in parentheses is parsed once, and replayed after backtracking
+  const memoized = new ParseSession({ memoize: true })
+  console.log(memoized.run(syntax(arith.sum).eof(), arith.memoLexer), memoized.stats, 'hit rate', memoized.hitRate)
+  const incremental = new ParseSession({ incremental: true })
+  incremental.run(arith.statements(), arith.incrementalLexer)
+  // `3 * * 4` -> `3 * 4`, where only the first statement is reused
+  console.log(incremental.reparse(arith.statements(), { start: 10, end: 12, text: '' }), incremental.stats)
+  // the statements after the edit are reused where they move to, as if parsed afresh, and the tree prints the edited source with the carriage returns
+  const crlf = new ParseSession({ incremental: true, cst: true })
+  crlf.run(arith.statements(), arith.crlfLexer)
+  console.log(crlf.reparse(arith.statements(), arith.crlfEdit), crlf.stats, JSON.stringify(printCst(crlf.cst!)))
+  const afresh = new ParseSession({ cst: true })
+  afresh.run(arith.statements(), arith.crlfEditedLexer)
+  const spans = (tree: CstNode) => JSON.stringify(tree.children.map(x => x.span))
+  console.log('reparsed as afresh', spans(crlf.cst!) === spans(afresh.cst!))
+  // the original offsets of a span count the carriage returns, as edits do
+  const eight = crlf.cst!.tokens.filter(x => x.literal === '8')[0]
+  console.log(crlf.reparse(arith.statements(), { start: eight.start.originalOffset, end: eight.end.originalOffset, text: '9' }), JSON.stringify(printCst(crlf.cst!)))
+  console.log(railroadDiagrams(syntax(arith.statements)).map(({ name, svg }) => `${name}: ${svg.length} characters of SVG`).join('\n'))
+  const counting = new ParseSession({ state: 0 })
+  console.log(counting.run(arith.pairs().eof(), arith.countingLexer), 'counted', counting.state)
+  syntax(noShift.outline).eof().show(noShift.lexer)
+  syntax(noShift.outline).eof().show(noShift.dedentLexer)
+  const triviaTokens = noShift.triviaLexer.allTokens()
+  console.log(JSON.stringify(triviaTokens.map(x => x.leadingTrivia.concat({ kind: 'whitespace', text: x.text! }, x.trailingTrivia).map(t => t.text).join('')).join('')))
+  const showTrivia = (trivia: Trivia[]) => trivia.map(t => `${t.kind} ${JSON.stringify(t.text)}`).join(', ')
+  triviaTokens.filter(x => x.text).forEach(x => console.log(`[${showTrivia(x.leadingTrivia)}] ${x.text} [${showTrivia(x.trailingTrivia)}]`))
+  const cstSession = new ParseSession({ cst: true })
+  cstSession.run(syntax(noShift.outline).eof(), noShift.cstLexer)
+  const tree = cstSession.cst!
+  const showCst = (x: CstElement): string => x instanceof CstLeaf ? JSON.stringify(x.token.text) : `(${x.rule || 'root'} ${x.children.map(showCst).join(' ')})`
+  console.log(showCst(tree))
+  // renames `main`, leaving the rest of the source as it is
+  tree.tokens.filter(x => x.literal === 'main').forEach(x => x.text = 'start')
+  console.log(JSON.stringify(printCst(tree)))
+  const commentOnly = new ParseSession({ cst: true })
+  commentOnly.run(syntax(noShift.outline).eof(), noShift.commentOnlyLexer)
+  console.log(JSON.stringify(printCst(commentOnly.cst!)), commentOnly.cst!.children.length)
+  syntax(html.element).eof().show(html.lexer)
+  syntax(templates.value).eof().show(templates.lexer)
+  syntax(rawStrings.strings).eof().show(rawStrings.lexer)
+  syntax(longestMatch.tokens).eof().show(longestMatch.lexer)
+  syntax(scannerless.settings).eof().show(scannerless.lexer)
+  syntax(scannerless.settings).eof().show(scannerless.errorLexer)
+  console.log('astral', scannerless.str().eof().parseSync(scannerless.astralLexer))
+  syntax(scannerless.entry).show(scannerless.astralKeyLexer)
+  try {
+    scannerless.blanks().parseSync(scannerless.blanksLexer)
+  } catch (e) {
+    console.log(String(e))
+  }
+  // a cycle of rules never grown is reported
+  try {
+    syntax(recursions.difference).eof().parseSync(recursions.differenceLexer)
+  } catch (e) {
+    console.log(String(e))
+  }
+  console.log('powers', syntax(recursions.powers).eof().parseSync(recursions.powersLexer))
+  try {
+    asyncs.promising().parseSync(asyncs.lexer.clone())
+  } catch (e) {
+    console.log(String(e))
+  }
+  // the single line of the source is released up to each result, where the kept text starts
+  const streamed: string[] = []
+  const { sp } = arith.streamLexer
+  arith.statement().parseEach(arith.streamLexer, x => streamed.push(`${x} kept from ${sp.sourceOffset} (${sp.sourceLine}:${sp.sourceColumn})`))
+    .then(() => console.log('streamed', streamed))
+    .then(() => asyncs.items().eof().parse(asyncs.lexer.clone()))
+    .then(xs => console.log('resumed', xs, asyncs.actions))
+  arith.statements().parse(arith.refusedStreamLexer).catch(e => console.log(String(e)))
 }
@@ -1,8 +1,10 @@
 import * as rules from './lex-rules'
 import * as srcs from './testsrcs'
-import { parallel, Lazy, Parser, token, more, trivial, ifElse, many, attempt, tokenLiteral, moreSeparated, moreSeparatedOptionalEnd, optional, moreEndWith, manySeparated, choices, syntax, identity, chainLeftMore, chainRightMore, string, manySeparatedOptionalEnd } from '../src/parse'
+import { parallel, Lazy, Parser, token, more, trivial, ifElse, many, attempt, tokenLiteral, moreSeparated, moreSeparatedOptionalEnd, optional, moreEndWith, manySeparated, choices, syntax, identity, chainLeftMore, chainRightMore, string, manySeparatedOptionalEnd, expression, operatorTable, operatorToken, recover, modifyState, anyToken, char, satisfy, oneOf, noneOf, range, regex, spaces, lexeme, symbol, fromAsync } from '../src/parse'
+import { grammar } from '../src/grammar'
 import { Lexer, ParseFailure, parseInt32Safe, parseSafeInt, SafeInt, Token } from '../src/lex'
 import { REPLCommand } from 'repl'
+import { Readable } from 'stream'
 
 // foldr :: [a] -> (a -> b -> b) -> b -> b
 function foldr<A, B>(container: A[], folder: (item: A, accumulation: B) => B, init: B): B {
@@ -15,7 +17,7 @@ function foldr<A, B>(container: A[], folder: (item: A, accumulation: B) => B, in
 }
 
 function parserZero<T>(): Parser<T> {
-  return new Parser(async (lexer: Lexer) => {
+  return new Parser((lexer: Lexer) => {
     throw new ParseFailure('mzero', lexer.sp.name, lexer.sp.line, lexer.sp.column)
   })
 }
@@ -150,3 +152,345 @@ export namespace test {
 
   export const lexer = new Lexer(rules.test, srcs.test, 'test')
 }
+
+export namespace arith {
+  function factorial(n: number): number {
+    return n <= 1 ? 1 : n * factorial(n - 1)
+  }
+
+  const table = operatorTable<number>(rules.arith, {
+    infix: (op, x, y) => {
+      switch (op.literal) {
+        case '^': return Math.pow(x, y)
+        case '*': return x * y
+        case '/': return x / y
+        case '+': return x + y
+        case '-': return x - y
+        default: return x === y ? 1 : 0
+      }
+    },
+    prefix: (op, x) => -x,
+    postfix: (op, x) => factorial(x)
+  })
+
+  export function expr(): Parser<number> {
+    return expression(syntax(term), table)
+  }
+
+  export function term(): Parser<number> {
+    return ifElse(
+      token('integer').translate(tk => parseInt32Safe(tk, false)),
+      token('(').then(syntax(expr)).skip(token(')'))
+    )
+  }
+
+  // expr ::= expr '-' term | term
+  export function difference(): Parser<number> {
+    return ifElse(
+      syntax(difference).bind(x => operatorToken('-').then(syntax(term)).translate(y => x - y)),
+      syntax(term)
+    )
+  }
+
+  // sum ::= term '+' term | term, where `term` is applied again at the same offset after backtracking
+  export function sum(): Parser<number> {
+    return ifElse(
+      attempt(syntax(term).bind(x => operatorToken('+').then(syntax(term)).translate(y => x + y))),
+      syntax(term)
+    )
+  }
+
+  // statements ::= (expr ';')*, where a malformed statement results in NaN
+  export function statements(): Parser<number[]> {
+    return many(statement())
+  }
+
+  export function statement(): Parser<number> {
+    return recover(syntax(expr), [';'], NaN).skip(token(';'))
+  }
+
+  export const start = () => expr().eof()
+
+  export const lexer = new Lexer(rules.arith, srcs.arith, 'arith')
+
+  export const differenceLexer = new Lexer(rules.arith, srcs.difference, 'difference')
+
+  export const memoLexer = new Lexer(rules.arith, '(1 + 2)', 'memo')
+
+  export const statementsLexer = new Lexer(rules.arith, srcs.statements, 'statements')
+
+  // an operand missing its operator, where the operators and ';' are all expected
+  export const missingOperatorLexer = new Lexer(rules.arith, '1 2;', 'missing-operator')
+
+  // the source ending where an operand or the ';' after a statement is expected, which is what is reported rather than any token
+  export const missingOperandLexer = new Lexer(rules.arith, '1 +', 'missing-operand')
+  export const missingSemicolonLexer = new Lexer(rules.arith, '1 + 2', 'missing-semicolon')
+
+  export const spanLexer = new Lexer(rules.arith, srcs.difference, 'span')
+
+  export const traceLexer = new Lexer(rules.arith, srcs.difference, 'trace')
+
+  export const incrementalLexer = new Lexer(rules.arith, srcs.statements, 'incremental')
+
+  // statements with CRLFs, edited from `3 * * 4` to `3 * 4` by offsets counting the carriage returns, and the source edited
+  export const crlfSource = '1 + 2;\r\n3 * * 4;\r\n\r\n(5 + 6) * 7;  \r\n8!;\r\n'
+  export const crlfLexer = new Lexer(rules.arith, crlfSource, 'crlf')
+  export const crlfEdit = { start: 10, end: 12, text: '' }
+  export const crlfEditedLexer = new Lexer(rules.arith, crlfSource.slice(0, 10) + crlfSource.slice(12), 'crlf')
+
+  // the statements in chunks of 4 characters, which split tokens
+  export const streamLexer = Lexer.fromStream(rules.arith, Readable.from(srcs.statements.match(/[^]{1,4}/g)!), 'stream')
+
+  // not to be parsed by `parse`, which would keep the whole source
+  export const refusedStreamLexer = Lexer.fromStream(rules.arith, Readable.from([srcs.statements]), 'refused-stream')
+
+  // an integer counted in the user state
+  export function counted(): Parser<number> {
+    return token('integer').bind(x => modifyState<number>(n => n + 1).end(parseInt(x.literal)))
+  }
+
+  // pairs ::= (integer integer | integer)*, where the integers of an abandoned pair are not counted
+  export function pairs(): Parser<number[][]> {
+    return many(choices<number[]>(
+      attempt(counted().bind(x => counted().bind(y => trivial([x, y])))),
+      counted().bind(x => trivial([x]))
+    ))
+  }
+
+  export const countingLexer = new Lexer(rules.arith, srcs.counting, 'counting')
+}
+
+export namespace noShift {
+  type Outline = { line: string, children: Outline[] }
+
+  // outline ::= line*, the lines of a source nested by their indentation
+  export function outline(): Parser<Outline[]> {
+    return many(syntax(line))
+  }
+
+  // line ::= word+ 'newline' ('indent' outline 'dedent')?
+  export function line(): Parser<Outline> {
+    return more(attempt(word())).bind(words => token('newline').then(ifElse(block(), trivial([]))).bind(children => trivial({ line: words.map(x => x.literal).join(' '), children })))
+  }
+
+  // any token but those of layout
+  function word(): Parser<Token> {
+    return anyToken().bind(x => ['newline', 'indent', 'dedent'].indexOf(x.type) > -1 ? parserZero<Token>() : trivial(x))
+  }
+
+  function block(): Parser<Outline[]> {
+    return token('indent').then(syntax(outline)).bind(children => token('dedent').end(children))
+  }
+
+  export const lexer = new Lexer(rules.noShift, srcs.noShift, 'no-shift')
+
+  export const dedentLexer = new Lexer(rules.noShift, srcs.dedent, 'dedent')
+  export const triviaLexer = new Lexer(rules.noShift, srcs.trivia, 'trivia', { trivia: true })
+  export const cstLexer = new Lexer(rules.noShift, srcs.trivia, 'cst')
+  // a source of trivia only, which no token takes
+  export const commentOnlyLexer = new Lexer(rules.noShift, '// only comment\r\n', 'comment-only')
+}
+
+export namespace html {
+  export type Node = string | Element
+
+  export interface Element {
+    tag: string
+    attributes: { [name: string]: string }
+    children: Node[]
+  }
+
+  // element ::= '<' name attribute* '>' (text | element)* '<' '/' name '>', where '<' enters the mode of tags and '>' leaves it
+  export function element(): Parser<Element> {
+    return token('<').then(token('name')).bind(tag =>
+      many(attribute()).bind(attributes =>
+        token('>').then(many(ifElse(token('text').translate(x => x.literal), attempt(syntax(element))))).bind(children =>
+          token('<').then(token('/')).then(tokenLiteral('name', tag.literal)).then(token('>')).end({
+            tag: tag.literal,
+            attributes: attributes.reduce((all, [name, value]) => ({ ...all, [name]: value }), {}),
+            children
+          })
+        )
+      )
+    )
+  }
+
+  function attribute(): Parser<[string, string]> {
+    return token('name').bind(name => token('=').then(token('string')).bind(value => trivial<[string, string]>([name.literal, value.literal])))
+  }
+
+  export const lexer = new Lexer(rules.html, srcs.html, 'html')
+}
+
+export namespace templates {
+  export type Value = string | Value[] | { [key: string]: Value }
+
+  // value ::= template | object | name
+  export function value(): Parser<Value> {
+    return choices<Value>(syntax(template), syntax(object), token('name').translate(x => x.literal))
+  }
+
+  // template ::= 'template' | 'template-start' value ('template-middle' value)* 'template-end', the parts of text and the embedded values in turn
+  function template(): Parser<Value[]> {
+    return ifElse(
+      token('template').translate(x => [x.literal]),
+      token('template-start').bind(start =>
+        syntax(value).bind(first =>
+          many(token('template-middle').bind(middle => syntax(value).translate(x => [middle.literal, x]))).bind(middles =>
+            token('template-end').translate(end => middles.reduce((parts, x) => parts.concat(x), [start.literal, first]).concat(end.literal))
+          )
+        )
+      )
+    )
+  }
+
+  // object ::= '{' (name ':' value) sepBy ',' '}'
+  function object(): Parser<{ [key: string]: Value }> {
+    return token('{').then(manySeparated(token('name').bind(key => token(':').then(syntax(value)).translate<[string, Value]>(x => [key.literal, x])), token(','))).bind(entries =>
+      token('}').end(entries.reduce((all, [key, x]) => ({ ...all, [key]: x }), {}))
+    )
+  }
+
+  export const lexer = new Lexer(rules.templates, srcs.templates, 'templates')
+}
+
+export namespace rawStrings {
+  export function strings(): Parser<[string, string][]> {
+    return many(anyToken().translate<[string, string]>(x => [x.type, x.literal]))
+  }
+
+  export const lexer = new Lexer(rules.rawStrings, srcs.rawStrings, 'raw-strings')
+}
+
+export namespace longestMatch {
+  export function tokens(): Parser<[string, string][]> {
+    return many(anyToken().translate<[string, string]>(x => [x.type, x.literal]))
+  }
+
+  export const lexer = new Lexer(rules.longestMatch, srcs.longestMatch, 'longest-match')
+}
+
+export namespace ints {
+  export function ints(): Parser<number[]> {
+    return grammar({ ints, parseInt32Safe })`
+      {
+        i = 'integer' => $(x => parseInt32Safe(x, false))
+        ';'+
+        is = ints
+        $([i].concat(is))
+      } | $([])
+    `
+  }
+
+  export const start = () => ints().eof()
+
+  export const lexer = new Lexer(rules.test, srcs.ints, 'ints')
+
+  // applying `ints` 10000 times in depth, too deep for the native stack if parsed straight
+  export const deepLexer = new Lexer(rules.test, '1;'.repeat(10000), 'deep-ints')
+
+  // grammars with mistakes, each throwing when compiled
+  export const mistakes = [
+    () => grammar({ ints })`'integer' digits`,
+    () => grammar({ ints })`'(' $([ints] ')'`,
+    () => grammar({ ints })`i = 'integer' i`,
+  ]
+}
+
+export namespace scannerless {
+  export type Value = number | string | Value[]
+
+  export function settings(): Parser<[string, Value][]> {
+    return spaces().then(many(syntax(entry)))
+  }
+
+  export function entry(): Parser<[string, Value]> {
+    return lexeme(choices(range('a', 'z'), char('_'))
+      .bind(head => many(satisfy(c => /\w/.test(c), 'a word character'))
+      .translate(tail => head + tail.join(''))))
+      .bind(key => symbol('=')
+      .then(syntax(value))
+      .translate<[string, Value]>(value => [key, value]))
+  }
+
+  export function value(): Parser<Value> {
+    return choices<Value>(
+      lexeme(regex(/(-?\d+)(\.\d+)?/)).translate(m => m[2] ? parseFloat(m[0]) : parseInt(m[1])),
+      syntax(str),
+      syntax(list),
+    )
+  }
+
+  export function str(): Parser<string> {
+    return char('"')
+      .then(many(choices(
+        noneOf('"\\\n'),
+        char('\\').then(oneOf('"\\n')).translate(c => c === 'n' ? '\n' : c),
+      )))
+      .bind(chars => symbol('"').end(chars.join('')))
+  }
+
+  export function list(): Parser<Value[]> {
+    return symbol('[')
+      .then(manySeparated(syntax(value), symbol(',')))
+      .bind(items => symbol(']').end(items))
+  }
+
+  export const lexer = new Lexer(rules.scannerless, srcs.scannerless, 'scannerless')
+  export const errorLexer = new Lexer(rules.scannerless, 'tags = [1, 2', 'scannerless-error')
+  // characters out of the basic plane are parsed and reported whole
+  export const astralLexer = new Lexer(rules.scannerless, '"😀"', 'scannerless-astral')
+  export const astralKeyLexer = new Lexer(rules.scannerless, '😀 = 1', 'scannerless-astral-key')
+
+  // a repeated pattern matching nothing is a mistake of the grammar, which is reported rather than repeated for ever
+  export function blanks(): Parser<RegExpMatchArray[]> {
+    return many(regex(/a*/))
+  }
+
+  export const blanksLexer = new Lexer(rules.scannerless, 'b', 'scannerless-blanks')
+}
+
+export namespace recursions {
+  // difference ::= difference '-' integer | integer, where the recursive rule is a new function on each application, so it cannot be grown
+  export function difference(): Parser<number> {
+    return ifElse(
+      syntax(() => difference()).bind(x => operatorToken('-').then(token('integer')).translate(y => x - parseInt(y.literal))),
+      token('integer').translate(x => parseInt(x.literal))
+    )
+  }
+
+  // powers ::= integer ('^' integer)*, folded from the right, of more operators than the native stack could recurse through
+  export function powers(): Parser<number> {
+    return chainRightMore(token('integer').translate(x => parseInt(x.literal)), operatorToken('^').end(Math.pow))
+  }
+
+  export const differenceLexer = new Lexer(rules.arith, '3 - 2 - 1', 'difference')
+
+  export const powersLexer = new Lexer(rules.arith, '1' + ' ^ 1'.repeat(100000), 'powers')
+}
+
+export namespace asyncs {
+  // a parser made by an async function, which is refused rather than resulting in its promise
+  export function promising(): Parser<Promise<number> | number> {
+    return ifElse(new Parser(async (lexer: Lexer) => parseInt(lexer.next().literal)).tag('promising'), trivial(0))
+  }
+
+  // the semantic actions run, each once, as parsing is resumed after each asynchronous parser instead of parsed again from the start
+  export const actions: string[] = []
+
+  export function items(): Parser<number[]> {
+    return many(syntax(item))
+  }
+
+  export function item(): Parser<number> {
+    return fromAsync(async (lexer: Lexer) => {
+      await new Promise(resolve => setImmediate(resolve))
+      return parseInt(lexer.next().literal)
+    }, 'later').translate(n => {
+      actions.push(`item ${n}`)
+      return n
+    })
+  }
+
+  export const lexer = new Lexer(rules.arith, '1 2 3', 'asyncs')
+}
@@ -1,7 +1,8 @@
-import './lex-test'
+import { MatchTest } from './lex-test'
 import util from 'util'
 import { ParseTest } from './parse-test'
 
 util.inspect.defaultOptions.depth = null
 
 ParseTest()
+MatchTest()
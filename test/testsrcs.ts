@@ -24,3 +24,82 @@ export const test = (function () {
   const source = fs.readFileSync(path).toString()
   return source
 })()
+
+export const arith = (function () {
+  const path = pathlib.resolve('./test/srcs/arith')
+  const source = fs.readFileSync(path).toString()
+  return source
+})()
+
+export const ints = (function () {
+  const path = pathlib.resolve('./test/srcs/ints')
+  const source = fs.readFileSync(path).toString()
+  return source
+})()
+
+export const difference = (function () {
+  const path = pathlib.resolve('./test/srcs/difference')
+  const source = fs.readFileSync(path).toString()
+  return source
+})()
+
+
+export const statements = (function () {
+  const path = pathlib.resolve('./test/srcs/statements')
+  const source = fs.readFileSync(path).toString()
+  return source
+})()
+
+export const counting = (function () {
+  const path = pathlib.resolve('./test/srcs/counting')
+  const source = fs.readFileSync(path).toString()
+  return source
+})()
+
+export const dedent = (function () {
+  const path = pathlib.resolve('./test/srcs/dedent')
+  const source = fs.readFileSync(path).toString()
+  return source
+})()
+
+export const html = (function () {
+  const path = pathlib.resolve('./test/srcs/html')
+  const source = fs.readFileSync(path).toString()
+  return source
+})()
+
+export const templates = (function () {
+  const path = pathlib.resolve('./test/srcs/templates')
+  const source = fs.readFileSync(path).toString()
+  return source
+})()
+
+export const rawStrings = (function () {
+  const path = pathlib.resolve('./test/srcs/raw-strings')
+  const source = fs.readFileSync(path).toString()
+  return source
+})()
+
+export const longestMatch = (function () {
+  const path = pathlib.resolve('./test/srcs/longest-match')
+  const source = fs.readFileSync(path).toString()
+  return source
+})()
+
+export const trivia = (function () {
+  const path = pathlib.resolve('./test/srcs/trivia')
+  const source = fs.readFileSync(path).toString()
+  return source
+})()
+
+export const scannerless = (function () {
+  const path = pathlib.resolve('./test/srcs/scannerless')
+  const source = fs.readFileSync(path).toString()
+  return source
+})()
+
+export const contextual = (function () {
+  const path = pathlib.resolve('./test/srcs/contextual')
+  const source = fs.readFileSync(path).toString()
+  return source
+})()